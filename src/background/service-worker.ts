@@ -6,28 +6,80 @@
 import {
     MESSAGE_ACTIONS,
     ExtensionMessage,
-    MessageResponse
+    MessageResponse,
+    CancelExtractionMessage,
+    ViewChangedMessage,
+    DataChangedMessage,
+    TestSelectorChainMessage,
+    GetStorageDataMessage,
+    DeleteRecordMessage,
+    ClearAllDataMessage
 } from '@shared/message-types';
 import { storageOrchestrator } from '@shared/storage-service';
-import { STORAGE_KEYS } from '@shared/constants';
+import { runHistoryStore } from '@shared/run-history-service';
+import { STORAGE_KEYS, SUB_VIEW_BADGE_TEXT, ROUTE_CHANGE_EVENT } from '@shared/constants';
+import { ViewDetectionResult } from '@shared/types';
+import { installHistoryHook } from '@content/history-hook';
+
+const VIEW_BADGE_COLOR = '#2563eb';
+const PENDING_CHANGES_BADGE_COLOR = '#d97706';
 
 class BackgroundServiceOrchestrator {
+    // Content scripts report every route change, so the popup can read the view without pinging the tab
+    private readonly tabViews = new Map<number, ViewDetectionResult>();
+    // Rows added or edited on the page since the last extraction, shown until the user re-extracts
+    private readonly tabPendingChanges = new Map<number, number>();
+
     initialize(): void {
         this.registerMessageHandler();
         this.registerStorageListener();
         this.registerInstallHandler();
+        this.registerTabListeners();
+    }
+
+    private registerTabListeners(): void {
+        chrome.tabs.onRemoved.addListener((tabId) => {
+            this.tabViews.delete(tabId);
+            this.tabPendingChanges.delete(tabId);
+            this.releaseExtractingTab(tabId);
+        });
+
+        // Leaving ActiveCampaign in the same tab would otherwise keep the last view's badge
+        chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+            if (changeInfo.url && !this.isActiveCampaignUrl(changeInfo.url)) {
+                this.tabViews.delete(tabId);
+                this.tabPendingChanges.delete(tabId);
+                this.clearBadge(tabId);
+            }
+        });
     }
 
     private registerInstallHandler(): void {
         chrome.runtime.onInstalled.addListener((details) => {
             if (details.reason === 'install') {
                 this.initializeDefaultStorage();
+            } else if (details.reason === 'update') {
+                this.reconcileStoredRecordIds();
             }
         });
     }
 
+    private async reconcileStoredRecordIds(): Promise<void> {
+        // Reconciliation works per account, so data from before partitioning is split up first
+        const partitionResult = await storageOrchestrator.partitionLegacyData();
+        if (!partitionResult.success) {
+            console.warn('Account partitioning failed:', partitionResult.errorMessage);
+            return;
+        }
+
+        const result = await storageOrchestrator.reconcileLegacyRecordIds();
+        if (!result.success) {
+            console.warn('Record ID reconciliation failed:', result.errorMessage);
+        }
+    }
+
     private async initializeDefaultStorage(): Promise<void> {
-        await storageOrchestrator.clearAllRecords();
+        await storageOrchestrator.clearAllAccounts();
     }
 
     private registerMessageHandler(): void {
@@ -49,8 +101,24 @@ class BackgroundServiceOrchestrator {
                 this.forwardToActiveTab(sendResponse);
                 break;
 
+            case MESSAGE_ACTIONS.CANCEL_EXTRACTION:
+                this.forwardCancellation(message, sendResponse);
+                break;
+
+            case MESSAGE_ACTIONS.CHECK_VIEW_TYPE:
+                this.forwardViewCheck(sendResponse);
+                break;
+
+            case MESSAGE_ACTIONS.TEST_SELECTOR_CHAIN:
+                this.forwardSelectorTest(message, sendResponse);
+                break;
+
             case MESSAGE_ACTIONS.GET_STORAGE_DATA:
-                this.handleGetStorageData(sendResponse);
+                this.handleGetStorageData(message, sendResponse);
+                break;
+
+            case MESSAGE_ACTIONS.LIST_ACCOUNTS:
+                this.handleListAccounts(sendResponse);
                 break;
 
             case MESSAGE_ACTIONS.DELETE_RECORD:
@@ -58,7 +126,12 @@ class BackgroundServiceOrchestrator {
                 break;
 
             case MESSAGE_ACTIONS.CLEAR_ALL_DATA:
-                this.handleClearAllData(sendResponse);
+                this.handleClearAllData(message, sendResponse);
+                break;
+
+            case MESSAGE_ACTIONS.EXTRACTION_STARTED:
+                this.handleExtractionStarted(sender);
+                sendResponse({ success: true });
                 break;
 
             case MESSAGE_ACTIONS.EXTRACTION_COMPLETE:
@@ -67,7 +140,26 @@ class BackgroundServiceOrchestrator {
                 break;
 
             case MESSAGE_ACTIONS.EXTRACTION_FAILED:
-                this.handleExtractionFailed(message);
+                this.handleExtractionFailed(message, sender);
+                sendResponse({ success: true });
+                break;
+
+            case MESSAGE_ACTIONS.VIEW_CHANGED:
+                this.handleViewChanged(message, sender);
+                sendResponse({ success: true });
+                break;
+
+            case MESSAGE_ACTIONS.DATA_CHANGED:
+                this.handleDataChanged(message, sender);
+                sendResponse({ success: true });
+                break;
+
+            case MESSAGE_ACTIONS.INSTALL_HISTORY_HOOK:
+                this.handleInstallHistoryHook(sender, sendResponse);
+                break;
+
+            case MESSAGE_ACTIONS.EXTRACTION_PROGRESS:
+                // Progress is rendered by the popup, which listens for it directly
                 sendResponse({ success: true });
                 break;
 
@@ -79,43 +171,162 @@ class BackgroundServiceOrchestrator {
     private async forwardToActiveTab(
         sendResponse: (response: MessageResponse) => void
     ): Promise<void> {
+        const activeTabId = await this.resolveActiveCampaignTab(sendResponse);
+        if (activeTabId === null) {
+            return;
+        }
+
         try {
-            const [activeTab] = await chrome.tabs.query({
-                active: true,
-                currentWindow: true
+            await this.storeExtractingTab(activeTabId);
+            const response = await chrome.tabs.sendMessage(activeTabId, {
+                action: MESSAGE_ACTIONS.TRIGGER_EXTRACTION,
+                tabId: activeTabId,
+                timestamp: Date.now(),
             });
 
-            if (!activeTab?.id) {
-                sendResponse({
-                    success: false,
-                    errorMessage: 'No active tab found'
-                });
-                return;
-            }
+            sendResponse(response as MessageResponse);
 
-            if (!this.isActiveCampaignUrl(activeTab.url)) {
-                sendResponse({
-                    success: false,
-                    errorMessage: 'Navigate to ActiveCampaign to extract data'
-                });
-                return;
-            }
+        } catch (error) {
+            sendResponse({
+                success: false,
+                errorMessage: this.describeTabError(error)
+            });
+        } finally {
+            await this.releaseExtractingTab(activeTabId);
+        }
+    }
 
-            const response = await chrome.tabs.sendMessage(activeTab.id, {
-                action: MESSAGE_ACTIONS.TRIGGER_EXTRACTION,
-                tabId: activeTab.id,
+    private async storeExtractingTab(tabId: number): Promise<void> {
+        await chrome.storage.session.set({ [STORAGE_KEYS.EXTRACTING_TAB]: tabId });
+    }
+
+    private async readExtractingTab(): Promise<number | null> {
+        const result = await chrome.storage.session.get(STORAGE_KEYS.EXTRACTING_TAB);
+        const tabId = result[STORAGE_KEYS.EXTRACTING_TAB];
+        return typeof tabId === 'number' ? tabId : null;
+    }
+
+    private async releaseExtractingTab(tabId: number): Promise<void> {
+        // Another tab may have started a run since, so only the matching entry is removed
+        if (await this.readExtractingTab() === tabId) {
+            await chrome.storage.session.remove(STORAGE_KEYS.EXTRACTING_TAB);
+        }
+    }
+
+    private async forwardViewCheck(
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<void> {
+        const activeTabId = await this.resolveActiveCampaignTab(sendResponse);
+        if (activeTabId === null) {
+            return;
+        }
+
+        const reportedView = this.tabViews.get(activeTabId);
+        if (reportedView) {
+            sendResponse({ success: true, payload: reportedView });
+            return;
+        }
+
+        // A restarted service worker has lost its reports, so the tab is asked directly
+        try {
+            const response = await chrome.tabs.sendMessage(activeTabId, {
+                action: MESSAGE_ACTIONS.CHECK_VIEW_TYPE,
                 timestamp: Date.now(),
             });
 
             sendResponse(response as MessageResponse);
 
         } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Failed to communicate with page';
             sendResponse({
                 success: false,
-                errorMessage: errorMsg.includes('Could not establish connection')
-                    ? 'Please refresh the ActiveCampaign page and try again'
-                    : errorMsg
+                errorMessage: this.describeTabError(error)
+            });
+        }
+    }
+
+    private async forwardSelectorTest(
+        message: TestSelectorChainMessage,
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<void> {
+        const activeTabId = await this.resolveActiveCampaignTab(sendResponse);
+        if (activeTabId === null) {
+            return;
+        }
+
+        try {
+            const response = await chrome.tabs.sendMessage(activeTabId, message);
+            sendResponse(response as MessageResponse);
+
+        } catch (error) {
+            sendResponse({
+                success: false,
+                errorMessage: this.describeTabError(error)
+            });
+        }
+    }
+
+    private async resolveActiveCampaignTab(
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<number | null> {
+        const [activeTab] = await chrome.tabs.query({
+            active: true,
+            currentWindow: true
+        });
+
+        if (!activeTab?.id) {
+            sendResponse({
+                success: false,
+                errorMessage: 'No active tab found'
+            });
+            return null;
+        }
+
+        if (!this.isActiveCampaignUrl(activeTab.url)) {
+            sendResponse({
+                success: false,
+                errorMessage: 'Navigate to ActiveCampaign to extract data'
+            });
+            return null;
+        }
+
+        return activeTab.id;
+    }
+
+    private describeTabError(error: unknown): string {
+        const errorMsg = error instanceof Error ? error.message : 'Failed to communicate with page';
+        return errorMsg.includes('Could not establish connection')
+            ? 'Please refresh the ActiveCampaign page and try again'
+            : errorMsg;
+    }
+
+    private async forwardCancellation(
+        message: CancelExtractionMessage,
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<void> {
+        // The user may have switched tabs since starting, so the extracting tab is targeted directly
+        const targetTabId = await this.readExtractingTab();
+        if (targetTabId === null) {
+            sendResponse({
+                success: false,
+                errorMessage: 'No extraction is running'
+            });
+            return;
+        }
+
+        try {
+            const response = await chrome.tabs.sendMessage(targetTabId, message) as MessageResponse;
+            if (!response.success) {
+                // A run that ended without reporting back leaves a stale entry behind
+                await this.releaseExtractingTab(targetTabId);
+                sendResponse({ success: false, errorMessage: 'No extraction is running' });
+                return;
+            }
+            sendResponse(response);
+        } catch (error) {
+            await this.releaseExtractingTab(targetTabId);
+            sendResponse({
+                success: false,
+                errorMessage: error instanceof Error ? error.message : 'Failed to cancel extraction'
             });
         }
     }
@@ -126,9 +337,29 @@ class BackgroundServiceOrchestrator {
     }
 
     private async handleGetStorageData(
+        message: GetStorageDataMessage,
         sendResponse: (response: MessageResponse) => void
     ): Promise<void> {
-        const result = await storageOrchestrator.retrieveAllData();
+        if (!message.accountHost) {
+            sendResponse({
+                success: false,
+                errorMessage: 'Missing account hostname'
+            });
+            return;
+        }
+
+        const result = await storageOrchestrator.retrieveAllData(message.accountHost);
+        sendResponse({
+            success: result.success,
+            payload: result.payload,
+            errorMessage: result.errorMessage ?? undefined,
+        });
+    }
+
+    private async handleListAccounts(
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<void> {
+        const result = await storageOrchestrator.listAccountPartitions();
         sendResponse({
             success: result.success,
             payload: result.payload,
@@ -137,19 +368,20 @@ class BackgroundServiceOrchestrator {
     }
 
     private async handleDeleteRecord(
-        message: ExtensionMessage & { entityType?: string; recordId?: string },
+        message: DeleteRecordMessage,
         sendResponse: (response: MessageResponse) => void
     ): Promise<void> {
-        if (!message.entityType || !message.recordId) {
+        if (!message.accountHost || !message.entityType || !message.recordId) {
             sendResponse({
                 success: false,
-                errorMessage: 'Missing entity type or record ID'
+                errorMessage: 'Missing account, entity type or record ID'
             });
             return;
         }
 
         const result = await storageOrchestrator.removeRecord(
-            message.entityType as 'contacts' | 'deals' | 'tasks',
+            message.accountHost,
+            message.entityType,
             message.recordId
         );
 
@@ -164,9 +396,23 @@ class BackgroundServiceOrchestrator {
     }
 
     private async handleClearAllData(
+        message: ClearAllDataMessage,
         sendResponse: (response: MessageResponse) => void
     ): Promise<void> {
-        const result = await storageOrchestrator.clearAllRecords();
+        if (!message.accountHost) {
+            sendResponse({
+                success: false,
+                errorMessage: 'Missing account hostname'
+            });
+            return;
+        }
+
+        const result = await storageOrchestrator.clearAllRecords(message.accountHost);
+        if (result.success) {
+            // The runs would otherwise point at records that no longer exist
+            await runHistoryStore.clearRuns(message.accountHost);
+        }
+
         sendResponse({
             success: result.success,
             errorMessage: result.errorMessage ?? undefined,
@@ -177,43 +423,143 @@ class BackgroundServiceOrchestrator {
         }
     }
 
+    private handleExtractionStarted(sender: chrome.runtime.MessageSender): void {
+        // Covers runs resumed from the in-page offer, which the popup never triggered
+        const tabId = sender.tab?.id;
+        if (tabId !== undefined) {
+            this.storeExtractingTab(tabId);
+        }
+    }
+
     private handleExtractionComplete(
         message: ExtensionMessage & { entityType?: string; extractedCount?: number },
-        _sender: chrome.runtime.MessageSender
+        sender: chrome.runtime.MessageSender
     ): void {
         const count = message.extractedCount ?? 0;
+        const tabId = sender.tab?.id;
+        if (tabId !== undefined) {
+            this.tabPendingChanges.delete(tabId);
+            // The forwarding call never returns if the worker was suspended during the run
+            this.releaseExtractingTab(tabId);
+        }
 
-        this.updateBadge(count.toString(), '#16a34a');
+        this.updateBadge(count.toString(), '#16a34a', tabId);
 
         setTimeout(() => {
-            this.clearBadge();
+            this.restoreViewBadge(tabId);
         }, 3000);
 
         this.broadcastStorageUpdate();
     }
 
     private handleExtractionFailed(
-        _message: ExtensionMessage & { errorMessage?: string }
+        _message: ExtensionMessage & { errorMessage?: string },
+        sender: chrome.runtime.MessageSender
     ): void {
-        this.updateBadge('!', '#dc2626');
+        const tabId = sender.tab?.id;
+        if (tabId !== undefined) {
+            this.releaseExtractingTab(tabId);
+        }
+
+        this.updateBadge('!', '#dc2626', tabId);
 
         setTimeout(() => {
-            this.clearBadge();
+            this.restoreViewBadge(tabId);
         }, 3000);
     }
 
-    private updateBadge(text: string, backgroundColor: string): void {
-        chrome.action.setBadgeText({ text });
-        chrome.action.setBadgeBackgroundColor({ color: backgroundColor });
+    private async handleInstallHistoryHook(
+        sender: chrome.runtime.MessageSender,
+        sendResponse: (response: MessageResponse) => void
+    ): Promise<void> {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined) {
+            sendResponse({ success: false, errorMessage: 'Missing sender tab' });
+            return;
+        }
+
+        // Bundled content scripts load through a relative import, which the page origin cannot serve
+        // in the MAIN world, so the hook is injected as a standalone function instead
+        try {
+            await chrome.scripting.executeScript({
+                target: { tabId, frameIds: [sender.frameId ?? 0] },
+                world: 'MAIN',
+                func: installHistoryHook,
+                args: [ROUTE_CHANGE_EVENT],
+            });
+            sendResponse({ success: true });
+        } catch (error) {
+            sendResponse({
+                success: false,
+                errorMessage: error instanceof Error ? error.message : 'Failed to install history hook'
+            });
+        }
+    }
+
+    private handleViewChanged(
+        message: ViewChangedMessage,
+        sender: chrome.runtime.MessageSender
+    ): void {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined) {
+            return;
+        }
+
+        // Changes counted on the previous view do not apply to the new one
+        this.tabViews.set(tabId, message.viewResult);
+        this.tabPendingChanges.delete(tabId);
+        this.restoreViewBadge(tabId);
+    }
+
+    private async handleDataChanged(
+        message: DataChangedMessage,
+        sender: chrome.runtime.MessageSender
+    ): Promise<void> {
+        const tabId = sender.tab?.id;
+        // Live capture writes to storage, which already notifies the popup
+        if (tabId === undefined || message.isCapturedLive || tabId === await this.readExtractingTab()) {
+            return;
+        }
+
+        const pendingCount = message.addedCount + message.changedCount;
+        if (pendingCount === 0) {
+            return;
+        }
+
+        this.tabPendingChanges.set(tabId, (this.tabPendingChanges.get(tabId) ?? 0) + pendingCount);
+        this.restoreViewBadge(tabId);
+    }
+
+    private restoreViewBadge(tabId: number | undefined): void {
+        const pendingCount = tabId !== undefined ? this.tabPendingChanges.get(tabId) : undefined;
+        if (pendingCount) {
+            this.updateBadge(`+${pendingCount > 99 ? '99' : pendingCount}`, PENDING_CHANGES_BADGE_COLOR, tabId);
+            return;
+        }
+
+        const viewResult = tabId !== undefined ? this.tabViews.get(tabId) : undefined;
+        if (!viewResult) {
+            this.clearBadge(tabId);
+            return;
+        }
+
+        this.updateBadge(SUB_VIEW_BADGE_TEXT[viewResult.subView] ?? '', VIEW_BADGE_COLOR, tabId);
+    }
+
+    private updateBadge(text: string, backgroundColor: string, tabId?: number): void {
+        chrome.action.setBadgeText({ text, tabId });
+        chrome.action.setBadgeBackgroundColor({ color: backgroundColor, tabId });
     }
 
-    private clearBadge(): void {
-        chrome.action.setBadgeText({ text: '' });
+    private clearBadge(tabId?: number): void {
+        chrome.action.setBadgeText({ text: '', tabId });
     }
 
     private registerStorageListener(): void {
         chrome.storage.onChanged.addListener((changes, namespace) => {
-            if (namespace === 'local' && changes[STORAGE_KEYS.CRM_DATA]) {
+            const hasPartitionChange = Object.keys(changes)
+                .some(storageKey => storageKey.startsWith(STORAGE_KEYS.ACCOUNT_DATA_PREFIX));
+            if (namespace === 'local' && hasPartitionChange) {
                 this.broadcastStorageUpdate();
             }
         });
@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectCurrentView } from './view-detector';
+
+describe('detectCurrentView', () => {
+    beforeEach(() => {
+        vi.stubGlobal('chrome', {
+            storage: {
+                local: { get: vi.fn().mockResolvedValue({}) },
+                onChanged: { addListener: vi.fn() },
+            },
+        });
+        document.body.innerHTML = '';
+    });
+
+    it('treats a deals table whose rows carry deal ids as the list, not the board', () => {
+        window.history.pushState({}, '', '/app/deals');
+        document.body.innerHTML = `
+            <table>
+                <thead><tr><th>Title</th><th>Value</th></tr></thead>
+                <tbody>
+                    <tr data-deal-id="1"><td><a href="/app/deals/1">Acme renewal</a></td><td>$15k</td></tr>
+                    <tr data-deal-id="2"><td><a href="/app/deals/2">Globex upsell</a></td><td>$8k</td></tr>
+                </tbody>
+            </table>`;
+
+        const viewResult = detectCurrentView();
+
+        expect(viewResult.detectedView).toBe('deals');
+        expect(viewResult.subView).toBe('deals_list');
+    });
+
+    it('still recognizes pipeline cards as the board', () => {
+        window.history.pushState({}, '', '/app/deals');
+        document.body.innerHTML = `
+            <div class="deal-card"><a href="/app/deals/1">Acme renewal</a><span>$15k</span></div>`;
+
+        expect(detectCurrentView().subView).toBe('pipeline_board');
+    });
+});
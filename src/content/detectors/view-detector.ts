@@ -1,10 +1,14 @@
 /**
  * View detector for identifying current ActiveCampaign page type
- * Uses URL path analysis and DOM element presence
+ * Uses URL path analysis and DOM element presence, then narrows to the sub-view
  */
 
-import { ViewType, ViewDetectionResult } from '@shared/types';
+import { ViewType, SubViewType, ViewDetectionResult } from '@shared/types';
 import { ACTIVE_CAMPAIGN_PATHS, SELECTOR_CHAINS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+
+const RANGE_OF_TOTAL_REGEX = /\d[\d,]*\s*[-–]\s*\d[\d,]*\s+of\s+(\d[\d,]*)/i;
+const COUNT_TEXT_REGEX = /(\d[\d,]*)\s*(?:total|results?|records?|contacts?|deals?|tasks?|accounts?)?\s*$/i;
 
 function analyzeUrlPath(): ViewType {
     const currentPath = window.location.pathname.toLowerCase();
@@ -22,11 +26,30 @@ function analyzeUrlPath(): ViewType {
         return 'tasks';
     }
 
+    if (currentPath.includes(ACTIVE_CAMPAIGN_PATHS.ACCOUNTS)) {
+        return 'accounts';
+    }
+
     return 'unknown';
 }
 
+function extractDetailRecordId(viewType: ViewType): string | null {
+    const detailPattern = viewType === 'contacts'
+        ? ACTIVE_CAMPAIGN_PATHS.CONTACT_DETAIL_PATTERN
+        : viewType === 'deals'
+            ? ACTIVE_CAMPAIGN_PATHS.DEAL_DETAIL_PATTERN
+            : null;
+    const detailMatch = detailPattern ? window.location.pathname.match(detailPattern) : null;
+    return detailMatch ? detailMatch[1] : null;
+}
+
+function isContactDetailPage(recordId: string | null): boolean {
+    return recordId !== null ||
+        findElementBySelectors(SELECTOR_CHAINS.contactDetail.container) !== null;
+}
+
 function findElementBySelectors(selectors: readonly string[]): Element | null {
-    for (const selector of selectors) {
+    for (const selector of selectorProfiles.resolve(selectors)) {
         try {
             const element = document.querySelector(selector);
             if (element) {
@@ -55,9 +78,139 @@ function detectViewByDOMPresence(): ViewType {
         return 'tasks';
     }
 
+    const accountsContainer = findElementBySelectors(SELECTOR_CHAINS.accounts.container);
+    if (accountsContainer) {
+        return 'accounts';
+    }
+
     return 'unknown';
 }
 
+function isCalendarView(): boolean {
+    const currentUrl = new URL(window.location.href);
+    const calendarSegment = ACTIVE_CAMPAIGN_PATHS.CALENDAR_SEGMENT;
+
+    return currentUrl.pathname.toLowerCase().split('/').includes(calendarSegment) ||
+        currentUrl.searchParams.get('view')?.toLowerCase() === calendarSegment ||
+        findElementBySelectors(SELECTOR_CHAINS.viewContext.calendar) !== null;
+}
+
+function isPipelineBoard(): boolean {
+    if (findElementBySelectors(SELECTOR_CHAINS.deals.container) !== null ||
+        findElementBySelectors(SELECTOR_CHAINS.deals.card) !== null) {
+        return true;
+    }
+
+    // The pipeline route renders the board unless the user switched it to a table
+    return window.location.pathname.toLowerCase().includes(ACTIVE_CAMPAIGN_PATHS.PIPELINE) &&
+        document.querySelector('table tbody tr') === null;
+}
+
+function readSegmentParameter(): string | null {
+    const searchParams = new URL(window.location.href).searchParams;
+
+    // Parameter names vary in case between list pages, so they are compared lowercased
+    for (const [parameterName, parameterValue] of searchParams) {
+        const isSegmentParameter = (ACTIVE_CAMPAIGN_PATHS.SEGMENT_QUERY_PARAMETERS as readonly string[])
+            .includes(parameterName.toLowerCase());
+        if (isSegmentParameter && parameterValue.trim().length > 0) {
+            return parameterValue.trim();
+        }
+    }
+
+    return null;
+}
+
+function classifySubView(detectedView: ViewType, isDetailView: boolean): SubViewType {
+    switch (detectedView) {
+        case 'deals':
+            if (isDetailView) return 'deal_detail';
+            return isPipelineBoard() ? 'pipeline_board' : 'deals_list';
+
+        case 'contacts':
+            if (isDetailView) return 'contact_detail';
+            return readSegmentParameter() !== null ? 'segment_list' : 'contact_list';
+
+        case 'tasks':
+            return isCalendarView() ? 'tasks_calendar' : 'tasks_list';
+
+        case 'accounts':
+            return 'accounts_list';
+
+        default:
+            return 'unknown';
+    }
+}
+
+function readElementText(selectors: readonly string[]): string | null {
+    const element = findElementBySelectors(selectors);
+    const text = element?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    return text.length > 0 && text.length < 100 ? text : null;
+}
+
+export function readPipelineName(): string | null {
+    for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.viewContext.pipelineName)) {
+        try {
+            const element = document.querySelector(selector);
+            const text = element?.textContent?.trim() ?? '';
+            // Clean up - remove dropdown arrows etc
+            const cleaned = text.replace(/[\u25BC\u25B6\u2193\u2191]/g, '').trim();
+            if (cleaned.length > 0 && cleaned.length < 100) {
+                // Extract just the pipeline name if format is "Deals / Pipeline Name"
+                const parts = cleaned.split('/');
+                const pipelineName = (parts.length > 1 ? parts[1] : cleaned).split('(')[0].trim();
+                if (pipelineName.length > 0) {
+                    return pipelineName;
+                }
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return null;
+}
+
+function readActiveFilter(subView: SubViewType): string | null {
+    const filterLabel = readElementText(SELECTOR_CHAINS.viewContext.activeFilter);
+    if (filterLabel) {
+        return filterLabel;
+    }
+
+    // Without a rendered label the segment id from the URL still tells the user which list this is
+    const segmentId = readSegmentParameter();
+    return subView === 'segment_list' && segmentId ? `Segment ${segmentId}` : null;
+}
+
+function readTotalRecordCount(): number | null {
+    for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.viewContext.totalCount)) {
+        try {
+            const countText = document.querySelector(selector)?.textContent?.trim() ?? '';
+            const countMatch = countText.match(RANGE_OF_TOTAL_REGEX) ?? countText.match(COUNT_TEXT_REGEX);
+            if (countMatch) {
+                return parseInt(countMatch[1].replace(/,/g, ''), 10);
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    // "21-40 of 340" in the pagination footer carries the record total as well
+    for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.pagination.pageIndicator)) {
+        try {
+            const indicatorText = document.querySelector(selector)?.textContent ?? '';
+            const rangeMatch = indicatorText.match(RANGE_OF_TOTAL_REGEX);
+            if (rangeMatch) {
+                return parseInt(rangeMatch[1].replace(/,/g, ''), 10);
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return null;
+}
+
 function determineConfidenceLevel(
     urlBasedView: ViewType,
     domBasedView: ViewType
@@ -80,11 +233,23 @@ export function detectCurrentView(): ViewDetectionResult {
     const confidence = determineConfidenceLevel(urlBasedView, domBasedView);
 
     const detectedView = urlBasedView !== 'unknown' ? urlBasedView : domBasedView;
+    const recordId = extractDetailRecordId(detectedView);
+    const isDetailView = detectedView === 'contacts'
+        ? isContactDetailPage(recordId)
+        : recordId !== null;
+    const subView = classifySubView(detectedView, isDetailView);
 
     return {
         detectedView,
+        subView,
         confidence,
         urlPath: window.location.pathname,
+        isDetailView,
+        recordId,
+        // The page header reads "Contacts" on other views, so the name is only taken from deal pages
+        pipelineName: subView === 'pipeline_board' || subView === 'deals_list' ? readPipelineName() : null,
+        activeFilter: readActiveFilter(subView),
+        totalRecordCount: isDetailView ? null : readTotalRecordCount(),
     };
 }
 
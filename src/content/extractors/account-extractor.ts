@@ -0,0 +1,107 @@
+/**
+ * Account data harvester for extracting company records from ActiveCampaign
+ * Handles the accounts list view
+ */
+
+import { ACAccount } from '@shared/types';
+import { SELECTOR_CHAINS, COLUMN_SYNONYMS } from '@shared/constants';
+import { BaseDataHarvester } from './base-extractor';
+
+export class AccountDataHarvester extends BaseDataHarvester<ACAccount> {
+    protected entityName = 'account';
+
+    async harvestRecords(): Promise<ACAccount[]> {
+        const containerElement = await this.waitForElement(SELECTOR_CHAINS.accounts.container);
+        await this.waitForPageToSettle();
+
+        const accountRowElements = containerElement
+            ? this.findAllMatchingElements(SELECTOR_CHAINS.accounts.row)
+            : [];
+
+        if (accountRowElements.length === 0) {
+            return this.extractFromMappedColumns();
+        }
+
+        // Custom columns are only identifiable through the table header
+        const extraColumnsByRow = new Map(
+            this.readMappedTable(COLUMN_SYNONYMS.accounts)
+                .map(mappedRow => [mappedRow.rowElement, mappedRow.extraColumns])
+        );
+
+        const harvestedAccounts: ACAccount[] = [];
+
+        for (const rowElement of accountRowElements) {
+            const extractedAccount = this.extractAccountFromRow(rowElement);
+            extractedAccount.customFields = extraColumnsByRow.get(rowElement) ?? {};
+            if (this.isValidAccount(extractedAccount)) {
+                harvestedAccounts.push(extractedAccount);
+            }
+        }
+
+        return harvestedAccounts;
+    }
+
+    private extractAccountFromRow(rowElement: Element): ACAccount {
+        const accountName = this.extractTextContent(rowElement, SELECTOR_CHAINS.accounts.name);
+        const accountUrl = this.extractTextContent(rowElement, SELECTOR_CHAINS.accounts.url);
+
+        return {
+            id: this.resolveRecordId(rowElement, [accountName, accountUrl]),
+            name: accountName,
+            url: accountUrl,
+            owner: this.extractTextContent(rowElement, SELECTOR_CHAINS.accounts.owner),
+            contactCount: this.parseNumericValue(
+                this.extractTextContent(rowElement, SELECTOR_CHAINS.accounts.contactCount)
+            ),
+            dealCount: this.parseNumericValue(
+                this.extractTextContent(rowElement, SELECTOR_CHAINS.accounts.dealCount)
+            ),
+            extractedAt: Date.now(),
+            sourceUrl: window.location.href,
+            accountHost: window.location.hostname,
+        };
+    }
+
+    private extractFromMappedColumns(): ACAccount[] {
+        const mappedRows = this.readMappedTable(COLUMN_SYNONYMS.accounts);
+        const harvestedAccounts: ACAccount[] = [];
+
+        for (const { rowElement, cells, extraColumns } of mappedRows) {
+            const accountName = cells.name
+                ? this.readCellText(cells.name.querySelector('a') ?? cells.name)
+                : '';
+            const accountUrl = cells.url ? this.readCellText(cells.url) : '';
+
+            const extractedAccount: ACAccount = {
+                id: this.resolveRecordId(rowElement, [accountName, accountUrl]),
+                name: accountName,
+                url: accountUrl,
+                owner: cells.owner ? this.readCellText(cells.owner) : '',
+                contactCount: cells.contactCount
+                    ? this.parseNumericValue(this.readCellText(cells.contactCount))
+                    : 0,
+                dealCount: cells.dealCount
+                    ? this.parseNumericValue(this.readCellText(cells.dealCount))
+                    : 0,
+                customFields: extraColumns,
+                extractedAt: Date.now(),
+                sourceUrl: window.location.href,
+                accountHost: window.location.hostname,
+            };
+
+            if (this.isValidAccount(extractedAccount)) {
+                harvestedAccounts.push(extractedAccount);
+            }
+        }
+
+        return harvestedAccounts;
+    }
+
+    private readCellText(cellElement: Element): string {
+        return cellElement.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    }
+
+    private isValidAccount(account: ACAccount): boolean {
+        return account.name.length > 0;
+    }
+}
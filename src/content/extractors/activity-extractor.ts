@@ -0,0 +1,175 @@
+/**
+ * Activity data harvester for extracting timeline entries from ActiveCampaign
+ * Handles the notes and activity stream on contact and deal detail pages
+ */
+
+import { ACActivity, ActivityType, LinkedEntity } from '@shared/types';
+import {
+    SELECTOR_CHAINS,
+    ACTIVE_CAMPAIGN_PATHS,
+    ACTIVITY_TYPE_KEYWORDS,
+    EXTRACTION_CONFIG
+} from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { BaseDataHarvester } from './base-extractor';
+import { domSettleWatcher } from '../handlers/dom-settle-watcher';
+
+export class ActivityDataHarvester extends BaseDataHarvester<ACActivity> {
+    protected entityName = 'activity';
+
+    async harvestRecords(): Promise<ACActivity[]> {
+        const timelineParent = this.resolveTimelineParent();
+        if (!timelineParent) {
+            return [];
+        }
+
+        const timelineElement = await this.waitForElement(SELECTOR_CHAINS.activities.container);
+        if (!timelineElement) {
+            return [];
+        }
+
+        await this.expandTimeline(timelineElement);
+
+        const harvestedActivities: ACActivity[] = [];
+
+        for (const itemElement of this.findAllMatchingElements(SELECTOR_CHAINS.activities.item)) {
+            const extractedActivity = this.extractActivityFromItem(itemElement, timelineParent);
+            if (extractedActivity.body.length > 0) {
+                harvestedActivities.push(extractedActivity);
+            }
+        }
+
+        return harvestedActivities;
+    }
+
+    private resolveTimelineParent(): LinkedEntity | null {
+        const currentPath = window.location.pathname;
+
+        // Parent ids use the stored record id so activities link back to the extracted contact or deal
+        const contactMatch = currentPath.match(ACTIVE_CAMPAIGN_PATHS.CONTACT_DETAIL_PATTERN);
+        if (contactMatch) {
+            return {
+                type: 'contact',
+                id: this.buildNativeRecordId(contactMatch[1], 'contact'),
+                name: this.extractTextContent(document.body, SELECTOR_CHAINS.contactDetail.name),
+            };
+        }
+
+        const dealMatch = currentPath.match(ACTIVE_CAMPAIGN_PATHS.DEAL_DETAIL_PATTERN);
+        if (dealMatch) {
+            return {
+                type: 'deal',
+                id: this.buildNativeRecordId(dealMatch[1], 'deal'),
+                name: this.extractTextContent(document.body, ['[data-testid="deal-title"]', 'h1']),
+            };
+        }
+
+        return null;
+    }
+
+    private async expandTimeline(timelineElement: Element): Promise<void> {
+        let previousItemCount = -1;
+
+        for (
+            let expansion = 0;
+            expansion < EXTRACTION_CONFIG.TIMELINE_MAX_EXPANSIONS && !this.isCancelled;
+            expansion++
+        ) {
+            const currentItemCount = this.findAllMatchingElements(SELECTOR_CHAINS.activities.item).length;
+            if (currentItemCount === previousItemCount) {
+                break;
+            }
+            previousItemCount = currentItemCount;
+
+            // Older entries load either behind a button or when the stream is scrolled to the end
+            const loadMoreButton = this.findLoadMoreButton(timelineElement);
+            await domSettleWatcher.settleAfter(() => {
+                if (loadMoreButton) {
+                    loadMoreButton.click();
+                } else {
+                    timelineElement.scrollTop = timelineElement.scrollHeight;
+                }
+            }, {
+                rowSelectors: SELECTOR_CHAINS.activities.item,
+                // A scroll at the true end loads nothing, and should not sit out the full timeout
+                requireRowChange: loadMoreButton !== null,
+                signal: this.abortSignal,
+            });
+        }
+    }
+
+    private findLoadMoreButton(timelineElement: Element): HTMLElement | null {
+        for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.activities.loadMore)) {
+            try {
+                const buttonElement = timelineElement.querySelector<HTMLElement>(selector) ??
+                    document.querySelector<HTMLElement>(selector);
+                if (buttonElement && !buttonElement.hasAttribute('disabled')) {
+                    return buttonElement;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        return null;
+    }
+
+    private extractActivityFromItem(itemElement: Element, timelineParent: LinkedEntity): ACActivity {
+        const activityBody = (
+            this.extractTextContent(itemElement, SELECTOR_CHAINS.activities.body) ||
+            itemElement.textContent ||
+            ''
+        ).replace(/\s+/g, ' ').trim();
+        const activityType = this.classifyActivity(itemElement, activityBody);
+        const activityTimestamp = this.readTimestamp(itemElement);
+
+        return {
+            id: this.resolveRecordId(itemElement, [
+                timelineParent.id,
+                activityType,
+                activityTimestamp,
+                activityBody.slice(0, 200),
+            ]),
+            type: activityType,
+            body: activityBody,
+            author: this.extractTextContent(itemElement, SELECTOR_CHAINS.activities.author),
+            timestamp: activityTimestamp,
+            parent: timelineParent,
+            extractedAt: Date.now(),
+            sourceUrl: window.location.href,
+            accountHost: window.location.hostname,
+        };
+    }
+
+    private classifyActivity(itemElement: Element, activityBody: string): ActivityType {
+        // Class names and data attributes are more reliable than the wording of the entry
+        const typeHints = [
+            itemElement.getAttribute('data-activity-type') ?? '',
+            itemElement.getAttribute('class') ?? '',
+            activityBody,
+        ];
+
+        for (const hint of typeHints) {
+            const hintLower = hint.toLowerCase();
+            for (const [keyword, activityType] of ACTIVITY_TYPE_KEYWORDS) {
+                if (hintLower.includes(keyword)) {
+                    return activityType;
+                }
+            }
+        }
+
+        return 'other';
+    }
+
+    private readTimestamp(itemElement: Element): string {
+        const timeElement = itemElement.querySelector('time[datetime]');
+        const timestampText = timeElement?.getAttribute('datetime') ||
+            this.extractAttributeValue(itemElement, SELECTOR_CHAINS.activities.timestamp, 'title') ||
+            this.extractTextContent(itemElement, SELECTOR_CHAINS.activities.timestamp);
+
+        const parsedDate = new Date(timestampText);
+
+        // Relative times like "2 days ago" are kept as displayed
+        return isNaN(parsedDate.getTime()) ? timestampText : parsedDate.toISOString();
+    }
+}
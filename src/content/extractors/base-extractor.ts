@@ -3,10 +3,64 @@
  * Abstract foundation for entity-specific extractors
  */
 
-import { EXTRACTION_CONFIG } from '@shared/constants';
+import {
+    EXTRACTION_CONFIG,
+    TABLE_HEADER_SELECTORS,
+    CURRENCY_SYMBOLS,
+    NATIVE_ID_SOURCES
+} from '@shared/constants';
+import { parseLocalizedNumber, NUMERIC_SUFFIX_PATTERN, AUTO_NUMBER_LOCALE } from '@shared/number-parser';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { domSettleWatcher } from '../handlers/dom-settle-watcher';
+import { selectorDiagnostics } from '../handlers/selector-diagnostics';
+
+const DEFAULT_CURRENCY = 'USD';
+
+function escapeRegExp(rawValue: string): string {
+    return rawValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest symbols first so "A$" and "C$" are not mistaken for a plain "$"
+const CURRENCY_SYMBOL_ENTRIES = Object.entries(CURRENCY_SYMBOLS)
+    .sort(([, firstSymbol], [, secondSymbol]) => secondSymbol.length - firstSymbol.length);
+const CURRENCY_SYMBOL_PATTERN = CURRENCY_SYMBOL_ENTRIES
+    .map(([, symbol]) => escapeRegExp(symbol))
+    .join('|');
+const CURRENCY_CODE_PATTERN = Object.keys(CURRENCY_SYMBOLS).join('|');
+const AMOUNT_PATTERN = `\\d[\\d,.]*(?:\\s?${NUMERIC_SUFFIX_PATTERN})?`;
+
+const CURRENCY_CODE_REGEX = new RegExp(`\\b(${CURRENCY_CODE_PATTERN})\\b`, 'i');
+const MONETARY_VALUE_REGEX = new RegExp(
+    `[-−]?(?:${CURRENCY_SYMBOL_PATTERN})\\s?[-−]?${AMOUNT_PATTERN}(?:\\s?(?:${CURRENCY_CODE_PATTERN})\\b)?` +
+    `|[-−]?\\b(?:${CURRENCY_CODE_PATTERN})\\s?[-−]?${AMOUNT_PATTERN}` +
+    `|[-−]?${AMOUNT_PATTERN}\\s?(?:(?:${CURRENCY_CODE_PATTERN})\\b|${CURRENCY_SYMBOL_PATTERN})(?!\\s?\\d)`,
+    'i'
+);
+
+export interface HarvesterOptions {
+    numberLocale?: string;
+    signal?: AbortSignal;
+}
+
+export interface MappedTableRow<F extends string> {
+    rowElement: Element;
+    cells: Partial<Record<F, Element>>;
+    extraColumns: Record<string, string>;
+}
 
 export abstract class BaseDataHarvester<T> {
     protected abstract entityName: string;
+    protected readonly numberLocale: string;
+    protected readonly abortSignal?: AbortSignal;
+
+    constructor(options: HarvesterOptions = {}) {
+        this.numberLocale = options.numberLocale ?? AUTO_NUMBER_LOCALE;
+        this.abortSignal = options.signal;
+    }
+
+    protected get isCancelled(): boolean {
+        return this.abortSignal?.aborted ?? false;
+    }
 
     protected async waitForElement(
         selectors: readonly string[],
@@ -14,8 +68,8 @@ export abstract class BaseDataHarvester<T> {
     ): Promise<Element | null> {
         const startTime = Date.now();
 
-        while (Date.now() - startTime < timeoutMs) {
-            for (const selector of selectors) {
+        while (Date.now() - startTime < timeoutMs && !this.isCancelled) {
+            for (const selector of selectorProfiles.resolve(selectors)) {
                 try {
                     const element = document.querySelector(selector);
                     if (element) {
@@ -32,16 +86,18 @@ export abstract class BaseDataHarvester<T> {
     }
 
     protected findAllMatchingElements(selectors: readonly string[]): Element[] {
-        for (const selector of selectors) {
+        for (const selector of selectorProfiles.resolve(selectors)) {
             try {
                 const elements = document.querySelectorAll(selector);
                 if (elements.length > 0) {
+                    selectorDiagnostics.recordLookup(selectors, selector);
                     return Array.from(elements);
                 }
             } catch {
                 continue;
             }
         }
+        selectorDiagnostics.recordLookup(selectors, null);
         return [];
     }
 
@@ -49,12 +105,13 @@ export abstract class BaseDataHarvester<T> {
         parentElement: Element,
         selectors: readonly string[]
     ): string {
-        for (const selector of selectors) {
+        for (const selector of selectorProfiles.resolve(selectors)) {
             try {
                 const childElement = parentElement.querySelector(selector);
                 if (childElement) {
                     const textContent = childElement.textContent?.trim() ?? '';
                     if (textContent.length > 0) {
+                        selectorDiagnostics.recordLookup(selectors, selector);
                         return textContent;
                     }
                 }
@@ -62,6 +119,7 @@ export abstract class BaseDataHarvester<T> {
                 continue;
             }
         }
+        selectorDiagnostics.recordLookup(selectors, null);
         return '';
     }
 
@@ -70,12 +128,13 @@ export abstract class BaseDataHarvester<T> {
         selectors: readonly string[],
         attributeName: string
     ): string {
-        for (const selector of selectors) {
+        for (const selector of selectorProfiles.resolve(selectors)) {
             try {
                 const childElement = parentElement.querySelector(selector);
                 if (childElement) {
                     const attrValue = childElement.getAttribute(attributeName) ?? '';
                     if (attrValue.length > 0) {
+                        selectorDiagnostics.recordLookup(selectors, selector);
                         return attrValue;
                     }
                 }
@@ -83,6 +142,7 @@ export abstract class BaseDataHarvester<T> {
                 continue;
             }
         }
+        selectorDiagnostics.recordLookup(selectors, null);
         return '';
     }
 
@@ -90,10 +150,11 @@ export abstract class BaseDataHarvester<T> {
         parentElement: Element,
         selectors: readonly string[]
     ): string[] {
-        for (const selector of selectors) {
+        for (const selector of selectorProfiles.resolve(selectors)) {
             try {
                 const elements = parentElement.querySelectorAll(selector);
                 if (elements.length > 0) {
+                    selectorDiagnostics.recordLookup(selectors, selector);
                     return Array.from(elements)
                         .map(el => el.textContent?.trim() ?? '')
                         .filter(text => text.length > 0);
@@ -102,35 +163,228 @@ export abstract class BaseDataHarvester<T> {
                 continue;
             }
         }
+        selectorDiagnostics.recordLookup(selectors, null);
         return [];
     }
 
-    protected parseNumericValue(rawValue: string): number {
-        const cleanedValue = rawValue
-            .replace(/[^\d.,\-]/g, '')
-            .replace(/,/g, '');
+    protected extractLabeledFields(
+        parentElement: Element,
+        fieldSelectors: readonly string[],
+        labelSelectors: readonly string[],
+        valueSelectors: readonly string[]
+    ): Array<{ label: string; value: string }> {
+        const labeledFields: Array<{ label: string; value: string }> = [];
+
+        for (const selector of selectorProfiles.resolve(fieldSelectors)) {
+            try {
+                const fieldElements = parentElement.querySelectorAll(selector);
+                for (const fieldElement of fieldElements) {
+                    const label = this.extractTextContent(fieldElement, labelSelectors).replace(/:$/, '').trim();
+                    const value = this.extractTextContent(fieldElement, valueSelectors);
+                    if (label.length > 0 && value.length > 0) {
+                        labeledFields.push({ label, value });
+                    }
+                }
+                if (labeledFields.length > 0) {
+                    return labeledFields;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        // Fall back to definition lists, which render label/value pairs as dt/dd
+        for (const termElement of parentElement.querySelectorAll('dt')) {
+            const valueElement = termElement.nextElementSibling;
+            if (valueElement?.tagName !== 'DD') continue;
+
+            const label = termElement.textContent?.replace(/:$/, '').trim() ?? '';
+            const value = valueElement.textContent?.trim() ?? '';
+            if (label.length > 0 && value.length > 0) {
+                labeledFields.push({ label, value });
+            }
+        }
+
+        return labeledFields;
+    }
+
+    protected readMappedTable<F extends string>(
+        columnSynonyms: Readonly<Record<F, readonly string[]>>
+    ): MappedTableRow<F>[] {
+        const headerCells = this.findAllMatchingElements(TABLE_HEADER_SELECTORS);
+        const headerRow = headerCells[0]?.closest('tr, [role="row"]');
+        if (!headerRow) {
+            return [];
+        }
+
+        const headerTitles = Array.from(headerRow.children)
+            .map(cell => cell.textContent?.trim() ?? '');
+        const headerLabels = headerTitles.map(title => this.normalizeColumnLabel(title));
+        const columnFields = this.mapColumnsToFields(headerLabels, columnSynonyms);
+
+        if (!columnFields.some(field => field !== null)) {
+            return [];
+        }
+
+        const tableRoot = headerRow.closest('table, [role="grid"], [role="table"]') ?? document.body;
+        const bodyRows = Array.from(tableRoot.querySelectorAll('tr, [role="row"]'))
+            .filter(row => row !== headerRow && !row.querySelector('th, [role="columnheader"]'));
+
+        return bodyRows.map(rowElement => {
+            const cells: Partial<Record<F, Element>> = {};
+            const extraColumns: Record<string, string> = {};
+
+            Array.from(rowElement.children).forEach((cellElement, columnIndex) => {
+                const mappedField = columnFields[columnIndex];
+                if (mappedField) {
+                    cells[mappedField] = cellElement;
+                    return;
+                }
+
+                // Keep unrecognized columns rather than dropping them
+                const columnTitle = headerTitles[columnIndex];
+                const cellText = cellElement.textContent?.trim() ?? '';
+                if (columnTitle && cellText.length > 0) {
+                    extraColumns[columnTitle] = cellText;
+                }
+            });
+
+            return { rowElement, cells, extraColumns };
+        });
+    }
+
+    private mapColumnsToFields<F extends string>(
+        headerLabels: string[],
+        columnSynonyms: Readonly<Record<F, readonly string[]>>
+    ): (F | null)[] {
+        const fieldEntries = Object.entries(columnSynonyms) as Array<[F, readonly string[]]>;
+        const assignedFields = new Set<F>();
+
+        // Exact synonym matches win over partial ones, e.g. "Contact Email" is email, not name
+        const columnScores = headerLabels.map(label => {
+            let bestField: F | null = null;
+            let bestScore = 0;
+
+            for (const [fieldName, synonyms] of fieldEntries) {
+                for (const synonym of synonyms) {
+                    const score = label === synonym
+                        ? Number.MAX_SAFE_INTEGER
+                        : label.includes(synonym) ? synonym.length : 0;
+                    if (score > bestScore) {
+                        bestField = fieldName;
+                        bestScore = score;
+                    }
+                }
+            }
 
-        const parsedNumber = parseFloat(cleanedValue);
-        return isNaN(parsedNumber) ? 0 : parsedNumber;
+            return { bestField, bestScore };
+        });
+
+        const columnFields: (F | null)[] = headerLabels.map(() => null);
+        const columnOrder = columnScores
+            .map((score, columnIndex) => ({ ...score, columnIndex }))
+            .filter(score => score.bestField !== null)
+            .sort((first, second) => second.bestScore - first.bestScore);
+
+        for (const { bestField, columnIndex } of columnOrder) {
+            if (bestField && !assignedFields.has(bestField)) {
+                assignedFields.add(bestField);
+                columnFields[columnIndex] = bestField;
+            }
+        }
+
+        return columnFields;
+    }
+
+    private normalizeColumnLabel(rawLabel: string): string {
+        return rawLabel
+            .toLowerCase()
+            .replace(/[\u25B2\u25BC\u2191\u2193:*]/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    protected parseNumericValue(rawValue: string): number {
+        return parseLocalizedNumber(rawValue, this.numberLocale);
     }
 
     protected extractCurrencyCode(rawValue: string): string {
-        const currencyPatterns: Record<string, string> = {
-            '\\$': 'USD',
-            '\u20AC': 'EUR',
-            '\u00A3': 'GBP',
-            '\u20B9': 'INR',
-            'A\\$': 'AUD',
-            'C\\$': 'CAD',
-        };
+        // An explicit ISO code is more reliable than a symbol shared by several currencies
+        const codeMatch = rawValue.match(CURRENCY_CODE_REGEX);
+        if (codeMatch) {
+            return codeMatch[1].toUpperCase();
+        }
 
-        for (const [pattern, code] of Object.entries(currencyPatterns)) {
-            if (new RegExp(pattern).test(rawValue)) {
+        for (const [code, symbol] of CURRENCY_SYMBOL_ENTRIES) {
+            if (rawValue.includes(symbol)) {
                 return code;
             }
         }
 
-        return 'USD';
+        return DEFAULT_CURRENCY;
+    }
+
+    protected containsMonetaryValue(rawText: string): boolean {
+        return MONETARY_VALUE_REGEX.test(rawText);
+    }
+
+    protected findMonetaryValue(rawText: string): { amount: number; currency: string } | null {
+        const valueMatch = rawText.match(MONETARY_VALUE_REGEX);
+        if (!valueMatch) {
+            return null;
+        }
+
+        return {
+            amount: this.parseNumericValue(valueMatch[0]),
+            currency: this.extractCurrencyCode(valueMatch[0]),
+        };
+    }
+
+    protected stripMonetaryValues(rawText: string): string {
+        return rawText.replace(new RegExp(MONETARY_VALUE_REGEX.source, 'gi'), '');
+    }
+
+    protected extractNativeId(element: Element, entityName: string = this.entityName): string | null {
+        const idSource = NATIVE_ID_SOURCES[entityName];
+        if (!idSource) {
+            return null;
+        }
+
+        for (const attributeName of idSource.attributes) {
+            const attributeValue = element.getAttribute(attributeName) ??
+                element.querySelector(`[${attributeName}]`)?.getAttribute(attributeName) ??
+                '';
+            if (/^\d+$/.test(attributeValue)) {
+                return attributeValue;
+            }
+        }
+
+        const linkElements = element.matches('a[href]')
+            ? [element, ...Array.from(element.querySelectorAll('a[href]'))]
+            : Array.from(element.querySelectorAll('a[href]'));
+
+        for (const linkElement of linkElements) {
+            const hrefMatch = (linkElement.getAttribute('href') ?? '').match(idSource.hrefPattern);
+            if (hrefMatch) {
+                return hrefMatch[1];
+            }
+        }
+
+        return null;
+    }
+
+    protected buildNativeRecordId(nativeId: string, entityName: string = this.entityName): string {
+        return `${entityName}-${nativeId}`;
+    }
+
+    protected extractLinkedAccountId(element: Element): string | undefined {
+        const accountNativeId = this.extractNativeId(element, 'account');
+        return accountNativeId ? this.buildNativeRecordId(accountNativeId, 'account') : undefined;
+    }
+
+    protected resolveRecordId(element: Element, fallbackParts: string[]): string {
+        const nativeId = this.extractNativeId(element);
+        return nativeId ? this.buildNativeRecordId(nativeId) : this.generateStableId(fallbackParts);
     }
 
     protected generateStableId(identifyingParts: string[]): string {
@@ -149,6 +403,34 @@ export abstract class BaseDataHarvester<T> {
         return `${this.entityName}_${Math.abs(hashValue).toString(36)}`;
     }
 
+    protected normalizeDateString(rawDate: string): string {
+        const trimmedDate = rawDate.trim();
+
+        const isoMatch = trimmedDate.match(/\d{4}-\d{2}-\d{2}/);
+        if (isoMatch) {
+            return isoMatch[0];
+        }
+
+        try {
+            const parsedDate = new Date(trimmedDate);
+            if (!isNaN(parsedDate.getTime())) {
+                // Local date parts: toISOString() would shift the day outside UTC
+                const monthPart = String(parsedDate.getMonth() + 1).padStart(2, '0');
+                const dayPart = String(parsedDate.getDate()).padStart(2, '0');
+                return `${parsedDate.getFullYear()}-${monthPart}-${dayPart}`;
+            }
+        } catch {
+            // Return original if parsing fails
+        }
+
+        return trimmedDate;
+    }
+
+    protected async waitForPageToSettle(): Promise<void> {
+        // Rows that are still rendering would otherwise be captured half-filled
+        await domSettleWatcher.waitUntilSettled({ signal: this.abortSignal });
+    }
+
     protected pauseExecution(milliseconds: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, milliseconds));
     }
@@ -3,10 +3,21 @@
  * Handles both list view and individual contact pages
  */
 
-import { ACContact } from '@shared/types';
-import { SELECTOR_CHAINS } from '@shared/constants';
+import { ACContact, CustomFieldMap } from '@shared/types';
+import { SELECTOR_CHAINS, COLUMN_SYNONYMS, ACTIVE_CAMPAIGN_PATHS } from '@shared/constants';
 import { BaseDataHarvester } from './base-extractor';
 
+// Profile panel labels that map onto standard ACContact fields; anything else is a custom field.
+// Labels are compared whole after normalisation, so "Company Size" stays custom and "Email Address" is never an address.
+const PROFILE_FIELD_LABELS = {
+    name: ['full name', 'name'],
+    email: ['email', 'email address', 'work email', 'personal email', 'secondary email'],
+    phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'work phone', 'home phone', 'fax'],
+    address: ['address', 'street address', 'mailing address', 'postal address'],
+    company: ['account', 'account name', 'company', 'company name', 'organization'],
+    owner: ['owner', 'contact owner', 'assigned to'],
+} as const;
+
 export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
     protected entityName = 'contact';
 
@@ -17,16 +28,26 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
             return this.attemptGenericTableExtraction();
         }
 
+        await this.waitForPageToSettle();
+
         const contactRowElements = this.findAllMatchingElements(SELECTOR_CHAINS.contacts.row);
 
         if (contactRowElements.length === 0) {
             return this.attemptGenericTableExtraction();
         }
 
+        // Custom columns are only identifiable through the table header
+        const extraColumnsByRow = new Map(
+            this.readMappedTable(COLUMN_SYNONYMS.contacts)
+                .map(mappedRow => [mappedRow.rowElement, mappedRow.extraColumns])
+        );
+
         const harvestedContacts: ACContact[] = [];
 
         for (const rowElement of contactRowElements) {
             const extractedContact = this.extractContactFromRow(rowElement);
+            // Storage merges custom fields key by key, so an empty map leaves stored ones alone
+            extractedContact.customFields = extraColumnsByRow.get(rowElement) ?? {};
             if (this.isValidContact(extractedContact)) {
                 harvestedContacts.push(extractedContact);
             }
@@ -35,6 +56,127 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
         return harvestedContacts;
     }
 
+    async harvestContactProfile(): Promise<ACContact[]> {
+        const profileElement = await this.waitForElement(SELECTOR_CHAINS.contactDetail.container);
+        const profileScope = profileElement ?? document.body;
+
+        const profileFields = this.extractLabeledFields(
+            profileScope,
+            SELECTOR_CHAINS.contactDetail.field,
+            SELECTOR_CHAINS.contactDetail.fieldLabel,
+            SELECTOR_CHAINS.contactDetail.fieldValue
+        );
+
+        const contactEmails = this.collectProfileEmails(profileScope, profileFields);
+        const contactPhones = this.collectProfilePhones(profileScope, profileFields);
+        const contactName = this.extractTextContent(profileScope, SELECTOR_CHAINS.contactDetail.name) ||
+            this.findProfileFieldValue(profileFields, PROFILE_FIELD_LABELS.name);
+
+        const customFields: CustomFieldMap = {};
+        for (const field of profileFields) {
+            if (!this.isStandardProfileLabel(field.label)) {
+                customFields[field.label] = field.value;
+            }
+        }
+
+        const profileIdMatch = window.location.pathname.match(ACTIVE_CAMPAIGN_PATHS.CONTACT_DETAIL_PATTERN);
+
+        const profileContact: ACContact = {
+            id: profileIdMatch
+                ? this.buildNativeRecordId(profileIdMatch[1])
+                : this.generateStableId([contactName, contactEmails[0] ?? '']),
+            name: contactName,
+            email: contactEmails[0] ?? '',
+            phone: contactPhones[0] ?? '',
+            tags: this.extractMultipleTextContents(profileScope, SELECTOR_CHAINS.contactDetail.tags),
+            owner: this.extractTextContent(profileScope, SELECTOR_CHAINS.contactDetail.owner) ||
+                this.findProfileFieldValue(profileFields, PROFILE_FIELD_LABELS.owner),
+            additionalEmails: contactEmails.slice(1),
+            additionalPhones: contactPhones.slice(1),
+            address: this.extractTextContent(profileScope, SELECTOR_CHAINS.contactDetail.address)
+                .replace(/\s+/g, ' ') ||
+                this.findProfileFieldValue(profileFields, PROFILE_FIELD_LABELS.address),
+            company: this.extractTextContent(profileScope, SELECTOR_CHAINS.contactDetail.company) ||
+                this.findProfileFieldValue(profileFields, PROFILE_FIELD_LABELS.company),
+            accountId: this.extractLinkedAccountId(profileScope),
+            lists: this.extractMultipleTextContents(profileScope, SELECTOR_CHAINS.contactDetail.lists),
+            customFields,
+            extractedAt: Date.now(),
+            sourceUrl: window.location.href,
+            accountHost: window.location.hostname,
+        };
+
+        return this.isValidContact(profileContact) ? [profileContact] : [];
+    }
+
+    private collectProfileEmails(
+        profileScope: Element,
+        profileFields: Array<{ label: string; value: string }>
+    ): string[] {
+        const candidateEmails = [
+            ...this.extractMultipleTextContents(profileScope, SELECTOR_CHAINS.contactDetail.emails),
+            ...Array.from(profileScope.querySelectorAll('a[href^="mailto:"]'))
+                .map(link => (link.getAttribute('href') ?? '').replace('mailto:', '').split('?')[0].trim()),
+            ...this.findProfileFieldValues(profileFields, PROFILE_FIELD_LABELS.email),
+        ];
+
+        return this.uniqueValues(candidateEmails.filter(email => this.looksLikeEmail(email)));
+    }
+
+    private collectProfilePhones(
+        profileScope: Element,
+        profileFields: Array<{ label: string; value: string }>
+    ): string[] {
+        const candidatePhones = [
+            ...this.extractMultipleTextContents(profileScope, SELECTOR_CHAINS.contactDetail.phones),
+            ...Array.from(profileScope.querySelectorAll('a[href^="tel:"]'))
+                .map(link => (link.getAttribute('href') ?? '').replace('tel:', '')),
+            ...this.findProfileFieldValues(profileFields, PROFILE_FIELD_LABELS.phone),
+        ];
+
+        return this.uniqueValues(
+            candidatePhones
+                .filter(phone => this.looksLikePhone(phone))
+                .map(phone => this.formatPhoneNumber(phone))
+        );
+    }
+
+    private findProfileFieldValues(
+        profileFields: Array<{ label: string; value: string }>,
+        profileLabels: readonly string[]
+    ): string[] {
+        return profileFields
+            .filter(field => profileLabels.includes(this.normalizeProfileLabel(field.label)))
+            .map(field => field.value);
+    }
+
+    private findProfileFieldValue(
+        profileFields: Array<{ label: string; value: string }>,
+        profileLabels: readonly string[]
+    ): string {
+        return this.findProfileFieldValues(profileFields, profileLabels)[0] ?? '';
+    }
+
+    private isStandardProfileLabel(label: string): boolean {
+        const normalizedLabel = this.normalizeProfileLabel(label);
+        return Object.values(PROFILE_FIELD_LABELS)
+            .some((profileLabels: readonly string[]) => profileLabels.includes(normalizedLabel));
+    }
+
+    private normalizeProfileLabel(label: string): string {
+        return label.toLowerCase().replace(/[:*]/g, '').replace(/\s+/g, ' ').trim();
+    }
+
+    private uniqueValues(values: string[]): string[] {
+        const seenValues = new Set<string>();
+        return values.filter(value => {
+            const normalized = value.toLowerCase();
+            if (seenValues.has(normalized)) return false;
+            seenValues.add(normalized);
+            return true;
+        });
+    }
+
     private extractContactFromRow(rowElement: Element): ACContact {
         const contactName = this.extractTextContent(rowElement, SELECTOR_CHAINS.contacts.name);
         const contactEmail = this.extractEmailAddress(rowElement);
@@ -43,14 +185,16 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
         const contactOwner = this.extractTextContent(rowElement, SELECTOR_CHAINS.contacts.owner);
 
         return {
-            id: this.generateStableId([contactName, contactEmail]),
+            id: this.resolveRecordId(rowElement, [contactName, contactEmail]),
             name: contactName,
             email: contactEmail,
             phone: contactPhone,
             tags: contactTags,
             owner: contactOwner,
+            accountId: this.extractLinkedAccountId(rowElement),
             extractedAt: Date.now(),
             sourceUrl: window.location.href,
+            accountHost: window.location.hostname,
         };
     }
 
@@ -89,6 +233,11 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
     }
 
     private attemptGenericTableExtraction(): Promise<ACContact[]> {
+        const mappedContacts = this.extractFromMappedColumns();
+        if (mappedContacts.length > 0) {
+            return Promise.resolve(mappedContacts);
+        }
+
         // Try multiple table selectors
         const tableSelectors = [
             'table tbody tr',
@@ -124,14 +273,18 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
 
             if (contactName || contactEmail) {
                 harvestedContacts.push({
-                    id: this.generateStableId([contactName, contactEmail]),
+                    id: this.resolveRecordId(row, [contactName, contactEmail]),
                     name: contactName,
                     email: contactEmail,
                     phone: contactPhone,
                     tags: this.findTagsInElement(row),
                     owner: '',
+                    // Same shape as the header-mapped path, which has no extra columns to offer here
+                    accountId: this.extractLinkedAccountId(row),
+                    customFields: {},
                     extractedAt: Date.now(),
                     sourceUrl: window.location.href,
+                    accountHost: window.location.hostname,
                 });
             }
         }
@@ -139,6 +292,55 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
         return Promise.resolve(harvestedContacts);
     }
 
+    private extractFromMappedColumns(): ACContact[] {
+        const mappedRows = this.readMappedTable(COLUMN_SYNONYMS.contacts);
+        const harvestedContacts: ACContact[] = [];
+
+        for (const { rowElement, cells, extraColumns } of mappedRows) {
+            const contactEmail = cells.email ? this.findEmailInElement(cells.email) : '';
+            const contactName = cells.name
+                ? this.readCellText(cells.name.querySelector('a') ?? cells.name)
+                : '';
+
+            const extractedContact: ACContact = {
+                id: this.resolveRecordId(rowElement, [contactName, contactEmail]),
+                name: contactName,
+                email: contactEmail,
+                phone: cells.phone ? this.findPhoneInElement(cells.phone) : '',
+                tags: cells.tags ? this.readTagCell(cells.tags) : [],
+                owner: cells.owner ? this.readCellText(cells.owner) : '',
+                company: cells.company ? this.readCellText(cells.company) : undefined,
+                accountId: this.extractLinkedAccountId(cells.company ?? rowElement),
+                customFields: extraColumns,
+                extractedAt: Date.now(),
+                sourceUrl: window.location.href,
+                accountHost: window.location.hostname,
+            };
+
+            if (this.isValidContact(extractedContact)) {
+                harvestedContacts.push(extractedContact);
+            }
+        }
+
+        return harvestedContacts;
+    }
+
+    private readCellText(cellElement: Element): string {
+        return cellElement.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    }
+
+    private readTagCell(cellElement: Element): string[] {
+        const tagBadges = this.findTagsInElement(cellElement);
+        if (tagBadges.length > 0) {
+            return tagBadges;
+        }
+
+        return this.readCellText(cellElement)
+            .split(',')
+            .map(tag => tag.trim())
+            .filter(tag => tag.length > 0);
+    }
+
     private findNameInElement(element: Element, email: string): string {
         // Look for links that aren't email links - often the name is a clickable link
         const links = element.querySelectorAll('a');
@@ -173,7 +375,7 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
             if (text.length < 2 || text.length > 100) continue;
 
             // Check if it might be a name (has letters, possibly spaces)
-            if (/^[A-Za-z\s\-\'\.]+$/.test(text) && text.length >= 2) {
+            if (/^[A-Za-z\s'.-]+$/.test(text) && text.length >= 2) {
                 return text;
             }
         }
@@ -182,8 +384,8 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
     }
 
     private looksLikeDate(value: string): boolean {
-        return /\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/.test(value) ||
-            /\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}/.test(value);
+        return /\d{1,2}[/-]\d{1,2}[/-]\d{2,4}/.test(value) ||
+            /\d{4}[/-]\d{1,2}[/-]\d{1,2}/.test(value);
     }
 
     private findEmailInElement(element: Element): string {
@@ -195,7 +397,7 @@ export class ContactDataHarvester extends BaseDataHarvester<ACContact> {
 
     private findPhoneInElement(element: Element): string {
         const textContent = element.textContent ?? '';
-        const phonePattern = /[\+]?[(]?[0-9]{1,3}[)]?[-\s\.]?[(]?[0-9]{1,4}[)]?[-\s\.]?[0-9]{1,4}[-\s\.]?[0-9]{1,9}/g;
+        const phonePattern = /[+]?[(]?[0-9]{1,3}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,4}[-\s.]?[0-9]{1,9}/g;
         const matches = textContent.match(phonePattern);
         return matches?.[0] ? this.formatPhoneNumber(matches[0]) : '';
     }
@@ -3,79 +3,91 @@
  * Handles pipeline board (Kanban) view and list view
  */
 
-import { ACDeal } from '@shared/types';
+import { ACDeal, BoardScrollReport, CustomFieldMap, DealStatus } from '@shared/types';
+import { COLUMN_SYNONYMS, SELECTOR_CHAINS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
 import { BaseDataHarvester } from './base-extractor';
+import { boardScrollHandler } from '../handlers/board-scroll-handler';
+import { readPipelineName } from '../detectors/view-detector';
+
+const ACCOUNT_LINK_SELECTOR = 'a[href*="/accounts/"]';
+
+// Tried after the "deals.card" chain; it would match list rows too, so it stays out of the chain
+const DEAL_CARD_LINK_FALLBACK = 'a[href*="/deals/"]';
+
+// Card field labels that map onto standard ACDeal fields; anything else is a custom field
+const CARD_FIELD_LABELS = {
+    owner: ['owner', 'assigned to'],
+    status: ['status'],
+    closeDate: ['close date', 'expected close', 'forecasted close'],
+    probability: ['probability'],
+    createdDate: ['created'],
+} as const;
+
+type CardFieldName = keyof typeof CARD_FIELD_LABELS;
+
+interface DealLifecycleFields {
+    status?: DealStatus;
+    closeDate?: string;
+    probability?: number;
+    createdDate?: string;
+}
 
 export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
     protected entityName = 'deal';
+    private boardScrollReport: BoardScrollReport | null = null;
+
+    get lastBoardScrollReport(): BoardScrollReport | null {
+        return this.boardScrollReport;
+    }
 
     async harvestRecords(): Promise<ACDeal[]> {
         // Wait for page to fully load
-        await this.pauseExecution(500);
+        await this.waitForPageToSettle();
 
         // Try Kanban board extraction first
-        const kanbanDeals = this.extractFromKanbanBoard();
-        if (kanbanDeals.length > 0) {
-            return kanbanDeals;
+        if (this.findDealCards().length > 0) {
+            return this.extractFromScrolledBoard();
         }
 
         // Fall back to list/table extraction
         return this.extractFromListView();
     }
 
+    async harvestBoardRecords(): Promise<ACDeal[]> {
+        await this.waitForPageToSettle();
+        return this.extractFromScrolledBoard();
+    }
+
+    harvestVisibleCards(): ACDeal[] {
+        // Only the cards rendered right now, for callers that must not scroll the board
+        return this.extractFromKanbanBoard();
+    }
+
+    async harvestListRecords(): Promise<ACDeal[]> {
+        await this.waitForPageToSettle();
+        return this.extractFromListView();
+    }
+
+    private async extractFromScrolledBoard(): Promise<ACDeal[]> {
+        // Large boards only render the cards in view, so each column is scrolled to its end
+        const { records, report } = await boardScrollHandler.harvestBoard(
+            () => this.extractFromKanbanBoard(),
+            this.readDealCardSelectors(),
+            this.abortSignal
+        );
+
+        this.boardScrollReport = report;
+        return records;
+    }
+
     private extractFromKanbanBoard(): ACDeal[] {
         const harvestedDeals: ACDeal[] = [];
 
-        // Find columns by looking for containers with headers like "To Contact"
-        const allDivs = document.querySelectorAll('div');
-        const stageColumns: Element[] = [];
-
-        for (const div of allDivs) {
-            // Check if this div has a header text that looks like a stage name
-            const possibleHeader = div.querySelector('div, span, h3, h4');
-            const headerText = possibleHeader?.textContent?.trim() ?? '';
-
-            // Stage headers typically have deal count pattern like "3 deals"
-            if (headerText.includes('deal') ||
-                headerText.match(/\$[\d,]+/) ||
-                div.className.toLowerCase().includes('stage') ||
-                div.className.toLowerCase().includes('column')) {
-
-                // Check if this contains deal-like cards
-                const cards = div.querySelectorAll('a, [class*="card"], [class*="Card"]');
-                if (cards.length > 0) {
-                    stageColumns.push(div);
-                }
-            }
-        }
-
         // Extract pipeline name from page header
         const pipelineName = this.extractPipelineName();
 
-        // Find all deal cards across the page
-        const dealCardSelectors = [
-            'a[href*="/deals/"]',  // Links to deal detail pages
-            '[class*="deal-card"]',
-            '[class*="DealCard"]',
-            '[class*="pipeline-card"]',
-            '[data-deal-id]',
-        ];
-
-        let dealCards: Element[] = [];
-        for (const selector of dealCardSelectors) {
-            const found = document.querySelectorAll(selector);
-            if (found.length > 0) {
-                dealCards = Array.from(found);
-                break;
-            }
-        }
-
-        // If no cards found with specific selectors, look for pattern-matched elements
-        if (dealCards.length === 0) {
-            dealCards = this.findDealCardsByPattern();
-        }
-
-        for (const card of dealCards) {
+        for (const card of this.findDealCards()) {
             const deal = this.extractDealFromCard(card, pipelineName);
             if (deal && deal.title.length > 0) {
                 harvestedDeals.push(deal);
@@ -85,11 +97,33 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
         return harvestedDeals;
     }
 
+    private findDealCards(): Element[] {
+        // Runs on every board scroll step, so only the card selectors are queried
+        const chainCards = this.findAllMatchingElements(SELECTOR_CHAINS.deals.card);
+        if (chainCards.length > 0) {
+            return chainCards;
+        }
+
+        const linkedCards = document.querySelectorAll(DEAL_CARD_LINK_FALLBACK);
+        if (linkedCards.length > 0) {
+            return Array.from(linkedCards);
+        }
+
+        // If no cards found with specific selectors, look for pattern-matched elements
+        return this.findDealCardsByPattern();
+    }
+
+    private readDealCardSelectors(): string[] {
+        // Resolved through the active profile so edits to "deals.card" reach board harvesting
+        return [...selectorProfiles.resolve(SELECTOR_CHAINS.deals.card), DEAL_CARD_LINK_FALLBACK];
+    }
+
     private findDealCardsByPattern(): Element[] {
         const potentialCards: Element[] = [];
 
         // Look for elements that contain: a name link + a value like $15k
-        const allLinks = document.querySelectorAll('a');
+        const boardScope = this.findAllMatchingElements(SELECTOR_CHAINS.deals.container)[0] ?? document;
+        const allLinks = boardScope.querySelectorAll('a');
 
         for (const link of allLinks) {
             const href = link.getAttribute('href') ?? '';
@@ -104,9 +138,7 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
 
             // Check if parent or nearby elements have currency/value patterns
             const parentText = parent.textContent ?? '';
-            if (parentText.match(/\$[\d,]+[kKmM]?/) ||
-                parentText.match(/[\d,]+\s*USD/) ||
-                parentText.match(/\$\d+/)) {
+            if (this.containsMonetaryValue(parentText)) {
 
                 // This looks like a deal card
                 if (!potentialCards.includes(parent)) {
@@ -128,7 +160,7 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
             const textNodes = cardElement.querySelectorAll('div, span');
             for (const node of textNodes) {
                 const text = node.textContent?.trim() ?? '';
-                if (text.length >= 2 && text.length < 100 && !text.includes('$')) {
+                if (text.length >= 2 && text.length < 100 && !this.containsMonetaryValue(text)) {
                     if (!text.match(/^\d/) && !text.includes('deal') && !text.includes('task')) {
                         return this.buildDeal(text, cardElement, pipelineName);
                     }
@@ -143,52 +175,61 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
     private buildDeal(title: string, cardElement: Element, pipelineName: string): ACDeal {
         // Extract value from card - look for currency patterns
         const cardText = cardElement.textContent ?? '';
-        const valueMatch = cardText.match(/\$[\d,]+(?:\.\d{2})?[kKmM]?/);
-        let dealValue = 0;
-        let valueStr = '$0';
-
-        if (valueMatch) {
-            valueStr = valueMatch[0];
-            dealValue = this.parseValueWithSuffix(valueStr);
-        }
+        const monetaryValue = this.findMonetaryValue(cardText);
 
         // Find stage by looking at parent column header
         const stageName = this.findParentStageName(cardElement);
 
         // Find contact name - often appears as a linked name
         const contactName = this.findContactInCard(cardElement, title);
+        const accountLink = cardElement.querySelector(ACCOUNT_LINK_SELECTOR);
+
+        const customFields: CustomFieldMap = {};
+        const standardFields: Partial<Record<CardFieldName, string>> = {};
+        const cardFields = this.extractLabeledFields(
+            cardElement,
+            SELECTOR_CHAINS.deals.field,
+            SELECTOR_CHAINS.deals.fieldLabel,
+            SELECTOR_CHAINS.deals.fieldValue
+        );
+        for (const field of cardFields) {
+            const standardField = this.matchCardFieldLabel(field.label);
+            if (standardField) {
+                standardFields[standardField] = field.value;
+            } else {
+                customFields[field.label] = field.value;
+            }
+        }
 
+        const readCardValue = (fieldName: CardFieldName): string =>
+            this.extractTextContent(cardElement, SELECTOR_CHAINS.deals[fieldName]) ||
+            (standardFields[fieldName] ?? '');
+
+        // Stage is left out of the fallback id so moving a deal does not create a new record
         return {
-            id: this.generateStableId([title, pipelineName, stageName]),
+            id: this.resolveRecordId(cardElement, [title, pipelineName, contactName]),
             title: title,
-            value: dealValue,
-            currency: 'USD',
+            value: monetaryValue?.amount ?? 0,
+            currency: monetaryValue?.currency ?? this.extractCurrencyCode(cardText),
             pipeline: pipelineName,
             stage: stageName,
             primaryContact: contactName,
-            owner: '',
+            owner: readCardValue('owner'),
+            account: accountLink?.textContent?.trim() ?? '',
+            accountId: this.extractLinkedAccountId(cardElement),
+            ...this.parseLifecycleFields({
+                status: readCardValue('status'),
+                closeDate: readCardValue('closeDate'),
+                probability: readCardValue('probability'),
+                createdDate: readCardValue('createdDate'),
+            }),
+            customFields,
             extractedAt: Date.now(),
             sourceUrl: window.location.href,
+            accountHost: window.location.hostname,
         };
     }
 
-    private parseValueWithSuffix(valueStr: string): number {
-        // Remove $ and commas
-        let numStr = valueStr.replace(/[$,]/g, '');
-        let multiplier = 1;
-
-        if (numStr.toLowerCase().endsWith('k')) {
-            multiplier = 1000;
-            numStr = numStr.slice(0, -1);
-        } else if (numStr.toLowerCase().endsWith('m')) {
-            multiplier = 1000000;
-            numStr = numStr.slice(0, -1);
-        }
-
-        const value = parseFloat(numStr);
-        return isNaN(value) ? 0 : value * multiplier;
-    }
-
     private findParentStageName(element: Element): string {
         // Walk up the DOM to find a stage column header
         let current: Element | null = element;
@@ -229,10 +270,9 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
         if (!element) return '';
         const text = element.textContent?.trim() ?? '';
 
-        // Remove deal count and $ value patterns
-        const cleaned = text
+        // Remove deal count and value patterns
+        const cleaned = this.stripMonetaryValues(text)
             .replace(/\d+ deals?/gi, '')
-            .replace(/\$[\d,]+[kKmM]?\s*(USD)?/gi, '')
             .trim();
 
         return cleaned.length > 1 && cleaned.length < 50 ? cleaned : '';
@@ -242,10 +282,12 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
         // Look for links that aren't the deal title
         const links = cardElement.querySelectorAll('a');
         for (const link of links) {
+            if (link.matches(ACCOUNT_LINK_SELECTOR)) continue;
+
             const text = link.textContent?.trim() ?? '';
             if (text !== dealTitle && text.length >= 2 && text.length < 100) {
                 // Likely a contact name
-                if (!text.includes('$') && !text.match(/^\d/)) {
+                if (!this.containsMonetaryValue(text) && !text.match(/^\d/)) {
                     return text;
                 }
             }
@@ -255,36 +297,15 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
     }
 
     private extractPipelineName(): string {
-        // Look for pipeline selector/dropdown or page title
-        const selectors = [
-            '[class*="pipeline-selector"]',
-            '[class*="PipelineSelector"]',
-            'h1',
-            '.page-title',
-            'button[class*="pipeline"]',
-        ];
-
-        for (const selector of selectors) {
-            const element = document.querySelector(selector);
-            if (element) {
-                const text = element.textContent?.trim() ?? '';
-                // Clean up - remove dropdown arrows etc
-                const cleaned = text.replace(/[\u25BC\u25B6\u2193\u2191]/g, '').trim();
-                if (cleaned.length > 0 && cleaned.length < 100) {
-                    // Extract just the pipeline name if format is "Deals / Pipeline Name"
-                    const parts = cleaned.split('/');
-                    if (parts.length > 1) {
-                        return parts[1].trim().split('(')[0].trim();
-                    }
-                    return cleaned.split('(')[0].trim();
-                }
-            }
-        }
-
-        return 'Sales Pipeline';
+        return readPipelineName() ?? 'Sales Pipeline';
     }
 
     private extractFromListView(): Promise<ACDeal[]> {
+        const mappedDeals = this.extractFromMappedColumns();
+        if (mappedDeals.length > 0) {
+            return Promise.resolve(mappedDeals);
+        }
+
         const tableRows = document.querySelectorAll('table tbody tr, .deals-list-item');
         const harvestedDeals: ACDeal[] = [];
 
@@ -294,23 +315,116 @@ export class DealDataHarvester extends BaseDataHarvester<ACDeal> {
 
             if (dealTitle.length >= 2) {
                 const rowText = row.textContent ?? '';
-                const valueMatch = rowText.match(/\$[\d,]+(?:\.\d{2})?[kKmM]?/);
+                const monetaryValue = this.findMonetaryValue(rowText);
+                const pipelineName = this.extractPipelineName();
+                const contactName = this.findContactInCard(row, dealTitle);
 
                 harvestedDeals.push({
-                    id: this.generateStableId([dealTitle]),
+                    id: this.resolveRecordId(row, [dealTitle, pipelineName, contactName]),
                     title: dealTitle,
-                    value: valueMatch ? this.parseValueWithSuffix(valueMatch[0]) : 0,
-                    currency: 'USD',
-                    pipeline: this.extractPipelineName(),
-                    stage: 'Unknown Stage',
-                    primaryContact: this.findContactInCard(row, dealTitle),
-                    owner: '',
+                    value: monetaryValue?.amount ?? 0,
+                    currency: monetaryValue?.currency ?? this.extractCurrencyCode(rowText),
+                    pipeline: pipelineName,
+                    stage: this.extractTextContent(row, SELECTOR_CHAINS.deals.stage) || 'Unknown Stage',
+                    primaryContact: contactName,
+                    owner: this.extractTextContent(row, SELECTOR_CHAINS.deals.owner),
+                    ...this.parseLifecycleFields({
+                        status: this.extractTextContent(row, SELECTOR_CHAINS.deals.status),
+                        closeDate: this.extractTextContent(row, SELECTOR_CHAINS.deals.closeDate),
+                        probability: this.extractTextContent(row, SELECTOR_CHAINS.deals.probability),
+                        createdDate: this.extractTextContent(row, SELECTOR_CHAINS.deals.createdDate),
+                    }),
                     extractedAt: Date.now(),
                     sourceUrl: window.location.href,
+                    accountHost: window.location.hostname,
                 });
             }
         }
 
         return Promise.resolve(harvestedDeals);
     }
+
+    private extractFromMappedColumns(): ACDeal[] {
+        const mappedRows = this.readMappedTable(COLUMN_SYNONYMS.deals);
+        const harvestedDeals: ACDeal[] = [];
+        const fallbackPipeline = this.extractPipelineName();
+
+        for (const { rowElement, cells, extraColumns } of mappedRows) {
+            const titleElement = cells.title?.querySelector('a') ?? cells.title;
+            const dealTitle = titleElement?.textContent?.trim() ?? '';
+            if (dealTitle.length < 2) continue;
+
+            // Value columns may omit the symbol when the account has a single currency
+            const valueText = cells.value?.textContent?.trim() ?? '';
+            const monetaryValue = this.findMonetaryValue(valueText);
+            const pipelineName = cells.pipeline?.textContent?.trim() || fallbackPipeline;
+            const contactName = cells.primaryContact?.textContent?.trim() ?? '';
+
+            harvestedDeals.push({
+                id: this.resolveRecordId(rowElement, [dealTitle, pipelineName, contactName]),
+                title: dealTitle,
+                value: monetaryValue?.amount ?? this.parseNumericValue(valueText),
+                currency: monetaryValue?.currency ?? this.extractCurrencyCode(valueText),
+                pipeline: pipelineName,
+                stage: cells.stage?.textContent?.trim() || 'Unknown Stage',
+                primaryContact: contactName,
+                owner: cells.owner?.textContent?.trim() ?? '',
+                account: cells.account?.textContent?.trim() ?? '',
+                accountId: this.extractLinkedAccountId(cells.account ?? rowElement),
+                ...this.parseLifecycleFields({
+                    status: cells.status?.textContent?.trim() ?? '',
+                    closeDate: this.readDateCellText(cells.closeDate),
+                    probability: cells.probability?.textContent?.trim() ?? '',
+                    createdDate: this.readDateCellText(cells.createdDate),
+                }),
+                customFields: extraColumns,
+                extractedAt: Date.now(),
+                sourceUrl: window.location.href,
+                accountHost: window.location.hostname,
+            });
+        }
+
+        return harvestedDeals;
+    }
+
+    private matchCardFieldLabel(label: string): CardFieldName | null {
+        const labelLower = label.toLowerCase();
+        const fieldEntries = Object.entries(CARD_FIELD_LABELS) as Array<[CardFieldName, readonly string[]]>;
+        const matchedEntry = fieldEntries
+            .find(([, keywords]) => keywords.some(keyword => labelLower.includes(keyword)));
+        return matchedEntry ? matchedEntry[0] : null;
+    }
+
+    private readDateCellText(cellElement: Element | undefined): string {
+        const timeElement = cellElement?.querySelector('time');
+        return timeElement?.getAttribute('datetime') ?? cellElement?.textContent?.trim() ?? '';
+    }
+
+    private parseLifecycleFields(rawValues: Record<keyof DealLifecycleFields, string>): DealLifecycleFields {
+        return {
+            status: this.parseDealStatus(rawValues.status),
+            closeDate: rawValues.closeDate ? this.normalizeDateString(rawValues.closeDate) : undefined,
+            probability: this.parseProbability(rawValues.probability),
+            createdDate: rawValues.createdDate ? this.normalizeDateString(rawValues.createdDate) : undefined,
+        };
+    }
+
+    private parseDealStatus(rawStatus: string): DealStatus | undefined {
+        const statusText = rawStatus.toLowerCase();
+
+        if (/\bwon\b/.test(statusText)) return 'won';
+        if (/\blost\b/.test(statusText)) return 'lost';
+        if (/\b(open|active|in progress)\b/.test(statusText)) return 'open';
+
+        return undefined;
+    }
+
+    private parseProbability(rawProbability: string): number | undefined {
+        if (!/\d/.test(rawProbability)) {
+            return undefined;
+        }
+
+        const percentage = this.parseNumericValue(rawProbability);
+        return Math.min(100, Math.max(0, percentage));
+    }
 }
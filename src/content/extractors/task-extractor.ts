@@ -3,18 +3,46 @@
  * Identifies task types and linked entities
  */
 
-import { ACTask, TaskType, LinkedEntity } from '@shared/types';
-import { TASK_TYPE_MAPPING } from '@shared/constants';
+import { ACTask, TaskType, TaskStatus, TaskPriority, LinkedEntity } from '@shared/types';
+import {
+    TASK_TYPE_MAPPING,
+    TASK_PRIORITY_MAPPING,
+    TIMEZONE_ABBREVIATION_OFFSETS,
+    COLUMN_SYNONYMS,
+    SELECTOR_CHAINS
+} from '@shared/constants';
 import { BaseDataHarvester } from './base-extractor';
 
+type TaskColumn = keyof typeof COLUMN_SYNONYMS.tasks;
+type TaskDetails = Pick<ACTask, 'status' | 'completedAt' | 'dueTime' | 'priority' | 'duration' | 'description'>;
+
+const TASK_COMPLETION_CELL_SELECTOR = '[class*="status"], [class*="complete"], [data-testid*="complete"]';
+const CLOCK_TIME_REGEX = /\b(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?/i;
+// An offset is either labelled ("GMT-5", "UTC+05:30") or glued to a 24h time ("15:00+0530");
+// a bare "-4:00 PM" is the end of a time range, not a zone
+const PREFIXED_OFFSET_REGEX = /\b(?:GMT|UTC)\s*([+-])(\d{1,2})(?::?(\d{2}))?\b/i;
+const ATTACHED_OFFSET_REGEX = /^([+-])(\d{2}):?(\d{2})(?![\d:]|\s*[ap]\.?m)/i;
+const TIMEZONE_ABBREVIATION_REGEX = new RegExp(
+    `\\b(${Object.keys(TIMEZONE_ABBREVIATION_OFFSETS).join('|')})\\b`
+);
+
 export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
     protected entityName = 'task';
 
     async harvestRecords(): Promise<ACTask[]> {
+        const containerElement = await this.waitForElement(SELECTOR_CHAINS.tasks.container);
         // Wait for page to load
-        await this.pauseExecution(500);
+        await this.waitForPageToSettle();
+
+        const taskItemElements = containerElement
+            ? this.findAllMatchingElements(SELECTOR_CHAINS.tasks.item)
+            : [];
+        const itemTasks = this.extractFromTaskItems(taskItemElements);
+        if (itemTasks.length > 0) {
+            return itemTasks;
+        }
 
-        // Try table-based extraction first (most common)
+        // Try table-based extraction next (most common)
         const tableDeals = this.extractFromTable();
         if (tableDeals.length > 0) {
             return tableDeals;
@@ -24,7 +52,82 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
         return this.attemptGenericTaskExtraction();
     }
 
+    private extractFromTaskItems(taskItemElements: Element[]): ACTask[] {
+        // Custom columns are only identifiable through the table header
+        const extraColumnsByRow = new Map(
+            this.readMappedTable(COLUMN_SYNONYMS.tasks)
+                .map(mappedRow => [mappedRow.rowElement, mappedRow.extraColumns])
+        );
+
+        const harvestedTasks: ACTask[] = [];
+
+        for (const itemElement of taskItemElements) {
+            let taskTitle = this.extractTextContent(itemElement, SELECTOR_CHAINS.tasks.title);
+            let taskType: TaskType = 'todo';
+
+            // Titles may still carry a type prefix like "Meeting: Final Review"
+            if (taskTitle.includes(':')) {
+                const parts = taskTitle.split(':');
+                const possibleType = parts[0].toLowerCase().trim();
+                if (this.isTaskTypePrefix(possibleType)) {
+                    taskType = this.mapToTaskType(possibleType);
+                    taskTitle = parts.slice(1).join(':').trim();
+                }
+            }
+
+            // Type is often only an icon, labelled through its title
+            const typeText = (
+                this.extractTextContent(itemElement, SELECTOR_CHAINS.tasks.type) ||
+                this.extractAttributeValue(itemElement, SELECTOR_CHAINS.tasks.type, 'title')
+            ).toLowerCase();
+            if (typeText && this.isTaskTypePrefix(typeText)) {
+                taskType = this.mapToTaskType(typeText);
+            }
+
+            if (taskTitle.length < 2) continue;
+
+            const rawDueDate = this.extractTextContent(itemElement, SELECTOR_CHAINS.tasks.dueDate);
+            const dueDate = rawDueDate ? this.normalizeDateString(rawDueDate) : '';
+            const linkedEntity = this.readLinkedEntityItem(itemElement, taskTitle);
+
+            harvestedTasks.push({
+                id: this.resolveTaskId(itemElement, taskTitle, taskType, dueDate, linkedEntity),
+                type: taskType,
+                title: taskTitle,
+                dueDate,
+                assignee: this.extractTextContent(itemElement, SELECTOR_CHAINS.tasks.assignee),
+                linkedEntity,
+                ...this.readTaskDetails(itemElement, {}, rawDueDate, dueDate),
+                customFields: extraColumnsByRow.get(itemElement) ?? {},
+                extractedAt: Date.now(),
+                sourceUrl: window.location.href,
+                accountHost: window.location.hostname,
+            });
+        }
+
+        return harvestedTasks;
+    }
+
+    private readLinkedEntityItem(itemElement: Element, taskTitle: string): LinkedEntity | null {
+        const linkedName = this.extractTextContent(itemElement, SELECTOR_CHAINS.tasks.linkedEntity);
+        if (!linkedName || linkedName === taskTitle) {
+            return null;
+        }
+
+        const linkedHref = this.extractAttributeValue(itemElement, SELECTOR_CHAINS.tasks.linkedEntity, 'href');
+        return {
+            type: /\/deals?\//.test(linkedHref) ? 'deal' : 'contact',
+            id: this.extractIdFromHref(linkedHref),
+            name: linkedName,
+        };
+    }
+
     private extractFromTable(): ACTask[] {
+        const mappedTasks = this.extractFromMappedColumns();
+        if (mappedTasks.length > 0) {
+            return mappedTasks;
+        }
+
         const harvestedTasks: ACTask[] = [];
 
         // Find all table rows
@@ -102,15 +205,21 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
             }
 
             if (taskTitle && taskTitle.length >= 2) {
+                const rawDueDate = this.findRawDateInRow(row);
+                const dueDate = rawDueDate ? this.normalizeDateString(rawDueDate) : '';
+                const linkedEntity = this.findLinkedEntityInRow(row, taskTitle);
+
                 harvestedTasks.push({
-                    id: this.generateStableId([taskTitle, taskType]),
+                    id: this.resolveTaskId(row, taskTitle, taskType, dueDate, linkedEntity),
                     type: taskType,
                     title: taskTitle,
-                    dueDate: this.findDateInRow(row),
+                    dueDate,
                     assignee: this.findAssigneeInRow(row),
-                    linkedEntity: this.findLinkedEntityInRow(row, taskTitle),
+                    linkedEntity,
+                    ...this.readTaskDetails(row, {}, rawDueDate, dueDate),
                     extractedAt: Date.now(),
                     sourceUrl: window.location.href,
+                    accountHost: window.location.hostname,
                 });
             }
         }
@@ -118,6 +227,270 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
         return harvestedTasks;
     }
 
+    private extractFromMappedColumns(): ACTask[] {
+        const mappedRows = this.readMappedTable(COLUMN_SYNONYMS.tasks);
+        const harvestedTasks: ACTask[] = [];
+
+        for (const { rowElement, cells, extraColumns } of mappedRows) {
+            if (!cells.title) continue;
+
+            const titleElement = cells.title.querySelector('a') ?? cells.title;
+            let taskTitle = titleElement.textContent?.trim() ?? '';
+            let taskType: TaskType = 'todo';
+
+            // Titles may still carry a type prefix like "Meeting: Final Review"
+            if (taskTitle.includes(':')) {
+                const parts = taskTitle.split(':');
+                const possibleType = parts[0].toLowerCase().trim();
+                if (this.isTaskTypePrefix(possibleType)) {
+                    taskType = this.mapToTaskType(possibleType);
+                    taskTitle = parts.slice(1).join(':').trim();
+                }
+            }
+
+            const typeText = cells.type?.textContent?.toLowerCase().trim() ?? '';
+            if (typeText && this.isTaskTypePrefix(typeText)) {
+                taskType = this.mapToTaskType(typeText);
+            }
+
+            if (taskTitle.length < 2) continue;
+
+            const rawDueDate = cells.dueDate ? this.readRawDateCell(cells.dueDate) : '';
+            const dueDate = rawDueDate ? this.normalizeDateString(rawDueDate) : '';
+            const linkedEntity = cells.linkedEntity
+                ? this.readLinkedEntityCell(cells.linkedEntity, taskTitle)
+                : null;
+
+            harvestedTasks.push({
+                id: this.resolveTaskId(rowElement, taskTitle, taskType, dueDate, linkedEntity),
+                type: taskType,
+                title: taskTitle,
+                dueDate,
+                assignee: cells.assignee?.textContent?.trim() ?? '',
+                linkedEntity,
+                ...this.readTaskDetails(rowElement, cells, rawDueDate, dueDate),
+                customFields: extraColumns,
+                extractedAt: Date.now(),
+                sourceUrl: window.location.href,
+                accountHost: window.location.hostname,
+            });
+        }
+
+        return harvestedTasks;
+    }
+
+    private readRawDateCell(cellElement: Element): string {
+        const timeEl = cellElement.querySelector('time');
+        return timeEl?.getAttribute('datetime') ?? cellElement.textContent?.trim() ?? '';
+    }
+
+    private readTaskDetails(
+        rowElement: Element,
+        cells: Partial<Record<TaskColumn, Element>>,
+        rawDueDate: string,
+        dueDate: string
+    ): TaskDetails {
+        const readCell = (column: TaskColumn): string =>
+            cells[column]?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+        const dueTimeText = cells.dueTime ? this.readRawDateCell(cells.dueTime) : rawDueDate;
+        const durationText = readCell('duration') ||
+            (rowElement.querySelector('[class*="duration"]')?.textContent ?? '');
+        const priorityText = readCell('priority') ||
+            (rowElement.querySelector('[class*="priority"]')?.textContent ?? '');
+        const descriptionText = readCell('description') ||
+            (rowElement.querySelector('.task-description, [class*="description"]')?.textContent
+                ?.replace(/\s+/g, ' ').trim() ?? '');
+        const completedAtText = cells.completedAt ? this.readRawDateCell(cells.completedAt) : '';
+
+        return {
+            status: this.readTaskStatus(rowElement, cells.status, completedAtText),
+            completedAt: completedAtText ? this.normalizeTimestamp(completedAtText) : undefined,
+            dueTime: dueDate ? this.parseDueTime(dueTimeText, dueDate) : undefined,
+            priority: this.mapToTaskPriority(priorityText),
+            duration: this.parseDurationMinutes(durationText),
+            description: descriptionText || undefined,
+        };
+    }
+
+    private readTaskStatus(
+        rowElement: Element,
+        statusCell: Element | undefined,
+        completedAtText: string
+    ): TaskStatus {
+        // The row also carries a bulk-select checkbox, so only a checkbox in the completion cell counts
+        const statusScope = statusCell ?? rowElement.querySelector(TASK_COMPLETION_CELL_SELECTOR);
+
+        // ActiveCampaign marks a task done with a checkbox before it shows any status text
+        const checkbox = statusScope?.querySelector<HTMLInputElement>('input[type="checkbox"]');
+        if (checkbox) {
+            return checkbox.checked ? 'completed' : 'open';
+        }
+
+        const ariaChecked = statusScope?.querySelector('[role="checkbox"]')?.getAttribute('aria-checked');
+        if (ariaChecked) {
+            return ariaChecked === 'true' ? 'completed' : 'open';
+        }
+
+        const statusText = statusCell?.textContent ?? '';
+        const statusFromText = this.parseStatusText(statusText);
+        if (statusFromText) {
+            return statusFromText;
+        }
+
+        const rowClasses = rowElement.getAttribute('class')?.toLowerCase() ?? '';
+        if (/\b(is-)?(completed?|done)\b/.test(rowClasses)) {
+            return 'completed';
+        }
+
+        if (!statusCell) {
+            const cellStatus = Array.from(rowElement.querySelectorAll('td'))
+                .map(cell => this.parseStatusText(cell.textContent ?? ''))
+                .find(status => status !== null);
+            if (cellStatus) {
+                return cellStatus;
+            }
+        }
+
+        return completedAtText ? 'completed' : 'open';
+    }
+
+    private parseStatusText(rawText: string): TaskStatus | null {
+        const statusText = rawText.toLowerCase().trim();
+
+        // "Incomplete" contains "complete", so the open wording has to be checked first
+        if (/^(incomplete|open|pending|not started|to do|overdue|upcoming)$/.test(statusText)) {
+            return 'open';
+        }
+        if (/^(complete|completed|done|closed)$/.test(statusText)) {
+            return 'completed';
+        }
+
+        return null;
+    }
+
+    private mapToTaskPriority(rawText: string): TaskPriority | undefined {
+        const priorityText = rawText.toLowerCase();
+
+        for (const [keyword, priority] of Object.entries(TASK_PRIORITY_MAPPING)) {
+            if (priorityText.includes(keyword)) {
+                return priority;
+            }
+        }
+
+        return undefined;
+    }
+
+    private parseDurationMinutes(rawText: string): number | undefined {
+        const durationText = rawText.toLowerCase();
+
+        // "1:30" is read as hours and minutes
+        const clockMatch = durationText.match(/^\s*(\d{1,2}):(\d{2})\s*$/);
+        if (clockMatch) {
+            return parseInt(clockMatch[1], 10) * 60 + parseInt(clockMatch[2], 10);
+        }
+
+        const hourMatch = durationText.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+        const minuteMatch = durationText.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+        if (!hourMatch && !minuteMatch) {
+            return undefined;
+        }
+
+        const totalMinutes = (hourMatch ? parseFloat(hourMatch[1]) * 60 : 0) +
+            (minuteMatch ? parseInt(minuteMatch[1], 10) : 0);
+        return Math.round(totalMinutes);
+    }
+
+    private parseDueTime(rawText: string, dueDate: string): string | undefined {
+        // A full ISO datetime already carries its own time and offset
+        if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(rawText.trim())) {
+            return rawText.trim();
+        }
+
+        const timeMatch = rawText.match(CLOCK_TIME_REGEX);
+        if (!timeMatch) {
+            return undefined;
+        }
+
+        let hours = parseInt(timeMatch[1], 10);
+        const minutes = parseInt(timeMatch[2], 10);
+        const meridiem = timeMatch[3]?.toLowerCase().replace(/\./g, '');
+        if (meridiem === 'pm' && hours < 12) hours += 12;
+        if (meridiem === 'am' && hours === 12) hours = 0;
+        if (hours > 23 || minutes > 59) {
+            return undefined;
+        }
+
+        const afterTime = rawText.slice((timeMatch.index ?? 0) + timeMatch[0].length);
+        const offsetMinutes = this.parseTimezoneOffset(afterTime, !meridiem) ??
+            -new Date(`${dueDate}T00:00:00`).getTimezoneOffset();
+
+        return `${dueDate}T${this.padTwo(hours)}:${this.padTwo(minutes)}:00${this.formatUtcOffset(offsetMinutes)}`;
+    }
+
+    private parseTimezoneOffset(rawText: string, allowAttachedOffset: boolean): number | null {
+        const abbreviationMatch = rawText.toUpperCase().match(TIMEZONE_ABBREVIATION_REGEX);
+        const offsetMatch = rawText.match(PREFIXED_OFFSET_REGEX) ??
+            (allowAttachedOffset ? rawText.match(ATTACHED_OFFSET_REGEX) : null);
+
+        if (offsetMatch) {
+            const sign = offsetMatch[1] === '-' ? -1 : 1;
+            return sign * (parseInt(offsetMatch[2], 10) * 60 + parseInt(offsetMatch[3] ?? '0', 10));
+        }
+
+        if (abbreviationMatch) {
+            return TIMEZONE_ABBREVIATION_OFFSETS[abbreviationMatch[1]];
+        }
+
+        // Without an explicit zone the due time is shown in the browser's timezone
+        return null;
+    }
+
+    private formatUtcOffset(offsetMinutes: number): string {
+        const sign = offsetMinutes < 0 ? '-' : '+';
+        const absoluteMinutes = Math.abs(offsetMinutes);
+        return `${sign}${this.padTwo(Math.floor(absoluteMinutes / 60))}:${this.padTwo(absoluteMinutes % 60)}`;
+    }
+
+    private padTwo(value: number): string {
+        return value.toString().padStart(2, '0');
+    }
+
+    private normalizeTimestamp(rawText: string): string {
+        const parsedDate = new Date(rawText.trim());
+        return isNaN(parsedDate.getTime()) ? rawText.trim() : parsedDate.toISOString();
+    }
+
+    private readLinkedEntityCell(cellElement: Element, taskTitle: string): LinkedEntity | null {
+        const linkedEntity = this.findLinkedEntityInRow(cellElement, taskTitle);
+        if (linkedEntity) {
+            return linkedEntity;
+        }
+
+        // Without a link, tasks in ActiveCampaign are related to a contact by default
+        const linkedName = cellElement.textContent?.trim() ?? '';
+        return linkedName.length > 0
+            ? { type: 'contact', id: '', name: linkedName }
+            : null;
+    }
+
+    private resolveTaskId(
+        element: Element,
+        taskTitle: string,
+        taskType: TaskType,
+        dueDate: string,
+        linkedEntity: LinkedEntity | null
+    ): string {
+        // Titles like "Call: Follow up" repeat across records, so the fallback also keys on
+        // when the task is due and what it is attached to
+        return this.resolveRecordId(element, [
+            taskTitle,
+            taskType,
+            dueDate,
+            linkedEntity?.id || linkedEntity?.name || '',
+        ]);
+    }
+
     private isTaskTypePrefix(text: string): boolean {
         const taskPrefixes = ['meeting', 'call', 'email', 'todo', 'task', 'follow', 'reminder'];
         return taskPrefixes.some(prefix => text.includes(prefix));
@@ -141,18 +514,18 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
     }
 
     private looksLikeDate(text: string): boolean {
-        return /\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}/.test(text) ||
-            /\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}/.test(text) ||
+        return /\d{1,2}[/-]\d{1,2}[/-]\d{2,4}/.test(text) ||
+            /\d{4}[/-]\d{1,2}[/-]\d{1,2}/.test(text) ||
             /^\d+\s*(day|hour|minute|min|hr)/i.test(text);
     }
 
-    private findDateInRow(row: Element): string {
+    private findRawDateInRow(row: Element): string {
         // Look for date patterns in the row
         const cells = row.querySelectorAll('td');
         for (const cell of cells) {
             const text = cell.textContent?.trim() ?? '';
             if (this.looksLikeDate(text)) {
-                return this.normalizeDateString(text);
+                return text;
             }
         }
 
@@ -165,26 +538,6 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
         return '';
     }
 
-    private normalizeDateString(rawDate: string): string {
-        const trimmedDate = rawDate.trim();
-
-        const isoMatch = trimmedDate.match(/\d{4}-\d{2}-\d{2}/);
-        if (isoMatch) {
-            return isoMatch[0];
-        }
-
-        try {
-            const parsedDate = new Date(trimmedDate);
-            if (!isNaN(parsedDate.getTime())) {
-                return parsedDate.toISOString().split('T')[0];
-            }
-        } catch {
-            // Return original if parsing fails
-        }
-
-        return trimmedDate;
-    }
-
     private findAssigneeInRow(row: Element): string {
         // Look for assignee in cells
         const cells = row.querySelectorAll('td');
@@ -213,8 +566,8 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
             if (text === taskTitle || text.includes(taskTitle)) continue;
 
             // Check if it's a contact or deal link
-            if (href.includes('/contact/') || href.includes('/deal/')) {
-                const type = href.includes('/deal/') ? 'deal' : 'contact';
+            if (/\/contacts?\//.test(href) || /\/deals?\//.test(href)) {
+                const type = /\/deals?\//.test(href) ? 'deal' : 'contact';
                 return {
                     type,
                     id: this.extractIdFromHref(href),
@@ -253,7 +606,7 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
 
                     if (taskTitle.length >= 2) {
                         harvestedTasks.push({
-                            id: this.generateStableId([taskTitle, taskType]),
+                            id: this.resolveTaskId(element, taskTitle, taskType, '', null),
                             type: taskType,
                             title: taskTitle,
                             dueDate: '',
@@ -261,6 +614,7 @@ export class TaskDataHarvester extends BaseDataHarvester<ACTask> {
                             linkedEntity: null,
                             extractedAt: Date.now(),
                             sourceUrl: window.location.href,
+                            accountHost: window.location.hostname,
                         });
                     }
                 }
@@ -0,0 +1,180 @@
+/**
+ * Board scroll handler for harvesting virtualized Kanban boards
+ * Scrolls every stage column until no new cards render, then restores the view
+ */
+
+import { BoardScrollReport } from '@shared/types';
+import { EXTRACTION_CONFIG } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { domSettleWatcher } from './dom-settle-watcher';
+
+interface SavedScrollPosition {
+    element: Element;
+    scrollTop: number;
+    scrollLeft: number;
+}
+
+export class BoardScrollHandler {
+    async harvestBoard<T extends { id: string }>(
+        collectVisibleRecords: () => T[],
+        cardSelectors: readonly string[],
+        signal?: AbortSignal
+    ): Promise<{ records: T[]; report: BoardScrollReport }> {
+        const accumulatedRecords = new Map<string, T>();
+        const absorbVisibleRecords = (): number => {
+            const sizeBefore = accumulatedRecords.size;
+            for (const record of collectVisibleRecords()) {
+                accumulatedRecords.set(record.id, record);
+            }
+            return accumulatedRecords.size - sizeBefore;
+        };
+
+        absorbVisibleRecords();
+
+        const initialColumns = this.findStageColumns(cardSelectors);
+        const boardElement = this.findBoardScroller(initialColumns);
+        const savedPositions = this.saveScrollPositions([boardElement, ...initialColumns]);
+        const windowPosition = { x: window.scrollX, y: window.scrollY };
+
+        const visitedColumns = new Set<Element>();
+        let columnsFullyLoaded = 0;
+
+        try {
+            let boardAtEnd = false;
+
+            // Columns outside the viewport may not exist yet, so the board is walked left to right
+            for (let step = 0; step < EXTRACTION_CONFIG.BOARD_SCROLL_MAX_STEPS && !boardAtEnd; step++) {
+                for (const columnElement of this.findStageColumns(cardSelectors)) {
+                    if (signal?.aborted) break;
+                    if (visitedColumns.has(columnElement)) continue;
+                    visitedColumns.add(columnElement);
+
+                    if (!savedPositions.some(saved => saved.element === columnElement)) {
+                        savedPositions.push(...this.saveScrollPositions([columnElement]));
+                    }
+
+                    if (await this.scrollColumnToEnd(columnElement, absorbVisibleRecords, signal)) {
+                        columnsFullyLoaded++;
+                    }
+                }
+
+                if (!boardElement || signal?.aborted || this.isScrolledToEnd(boardElement, 'horizontal')) {
+                    boardAtEnd = true;
+                } else {
+                    boardElement.scrollLeft += Math.max(boardElement.clientWidth * 0.8, 1);
+                    await this.waitForRender(signal);
+                    absorbVisibleRecords();
+                }
+            }
+        } finally {
+            this.restoreScrollPositions(savedPositions);
+            window.scrollTo(windowPosition.x, windowPosition.y);
+        }
+
+        return {
+            records: Array.from(accumulatedRecords.values()),
+            report: {
+                columnsFound: visitedColumns.size,
+                columnsFullyLoaded,
+            },
+        };
+    }
+
+    private async scrollColumnToEnd(
+        columnElement: Element,
+        absorbVisibleRecords: () => number,
+        signal?: AbortSignal
+    ): Promise<boolean> {
+        for (let step = 0; step < EXTRACTION_CONFIG.BOARD_SCROLL_MAX_STEPS && !signal?.aborted; step++) {
+            const newRecordCount = absorbVisibleRecords();
+
+            // At the bottom with nothing new after a render pass means the column is complete
+            if (this.isScrolledToEnd(columnElement, 'vertical') && newRecordCount === 0 && step > 0) {
+                return true;
+            }
+
+            columnElement.scrollTop += Math.max(columnElement.clientHeight * 0.8, 1);
+            await this.waitForRender(signal);
+        }
+
+        return false;
+    }
+
+    private findStageColumns(cardSelectors: readonly string[]): Element[] {
+        const columnElements: Element[] = [];
+
+        for (const selector of selectorProfiles.resolve(cardSelectors)) {
+            try {
+                for (const cardElement of document.querySelectorAll(selector)) {
+                    const columnElement = this.findScrollableAncestor(cardElement, 'vertical');
+                    if (columnElement && !columnElements.includes(columnElement)) {
+                        columnElements.push(columnElement);
+                    }
+                }
+            } catch {
+                continue;
+            }
+
+            if (columnElements.length > 0) {
+                break;
+            }
+        }
+
+        return columnElements;
+    }
+
+    private findBoardScroller(columnElements: Element[]): Element | null {
+        const firstColumn = columnElements[0];
+        return firstColumn?.parentElement
+            ? this.findScrollableAncestor(firstColumn.parentElement, 'horizontal')
+            : null;
+    }
+
+    private findScrollableAncestor(element: Element, direction: 'vertical' | 'horizontal'): Element | null {
+        let current: Element | null = element.parentElement;
+
+        while (current && current !== document.body && current !== document.documentElement) {
+            const computedStyle = window.getComputedStyle(current);
+            const overflowValue = direction === 'vertical' ? computedStyle.overflowY : computedStyle.overflowX;
+            if (overflowValue === 'auto' || overflowValue === 'scroll') {
+                return current;
+            }
+            current = current.parentElement;
+        }
+
+        return null;
+    }
+
+    private isScrolledToEnd(element: Element, direction: 'vertical' | 'horizontal'): boolean {
+        // Fractional scroll offsets on zoomed pages can stop a pixel short of the end
+        return direction === 'vertical'
+            ? element.scrollTop + element.clientHeight >= element.scrollHeight - 2
+            : element.scrollLeft + element.clientWidth >= element.scrollWidth - 2;
+    }
+
+    private saveScrollPositions(elements: Array<Element | null>): SavedScrollPosition[] {
+        return elements
+            .filter((element): element is Element => element !== null)
+            .map(element => ({
+                element,
+                scrollTop: element.scrollTop,
+                scrollLeft: element.scrollLeft,
+            }));
+    }
+
+    private restoreScrollPositions(savedPositions: SavedScrollPosition[]): void {
+        for (const { element, scrollTop, scrollLeft } of savedPositions) {
+            if (element.isConnected) {
+                element.scrollTop = scrollTop;
+                element.scrollLeft = scrollLeft;
+            }
+        }
+    }
+
+    private async waitForRender(signal?: AbortSignal): Promise<void> {
+        // Virtualized columns re-render in place, so a quiet DOM is the only reliable signal
+        await domSettleWatcher.waitUntilSettled({ signal });
+    }
+}
+
+export const boardScrollHandler = new BoardScrollHandler();
@@ -1,16 +1,57 @@
 /**
  * DOM Change Observer for detecting content updates
- * Uses MutationObserver to watch for new data being loaded
+ * Uses MutationObserver and per-row fingerprints to tell which records were added, removed or edited
  */
 
-import { MESSAGE_ACTIONS, createMessage, ExtractionFailedMessage } from '@shared/message-types';
+import { MESSAGE_ACTIONS, createMessage, DataChangedMessage } from '@shared/message-types';
+import { NATIVE_ID_SOURCES, SELECTOR_CHAINS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { RowChangeSummary, ViewType } from '@shared/types';
+import { detectCurrentView } from '../detectors/view-detector';
+
+// Returns true when the change was handled and the re-extract prompt is not needed
+type DataChangeHandler = (changeSummary: RowChangeSummary) => boolean;
+
+function readTrackedRowSelectors(): string[] {
+    return [
+        ...selectorProfiles.resolve(SELECTOR_CHAINS.deals.card),
+        ...selectorProfiles.resolve(SELECTOR_CHAINS.pagination.rowSet),
+    ];
+}
+
+const ROW_KEY_SELECTOR = 'a, td, [role="cell"], [role="gridcell"]';
+
+const ROW_TEXT_LIMIT = 500;
+
+// A deal row usually links its contact too, so the listed entity's id has to be tried first
+const VIEW_ID_SOURCE: Partial<Record<ViewType, string>> = {
+    contacts: 'contact',
+    deals: 'deal',
+    tasks: 'task',
+    accounts: 'account',
+};
+
+function hashText(text: string): string {
+    let hashValue = 0;
+    for (let charIndex = 0; charIndex < text.length; charIndex++) {
+        hashValue = ((hashValue << 5) - hashValue) + text.charCodeAt(charIndex);
+        hashValue = hashValue & hashValue;
+    }
+    return Math.abs(hashValue).toString(36);
+}
+
+function normalizeRowText(element: Element | null): string {
+    return element?.textContent?.replace(/\s+/g, ' ').trim().slice(0, ROW_TEXT_LIMIT) ?? '';
+}
 
 export class DOMChangeObserver {
     private observer: MutationObserver | null = null;
     private debounceTimer: number | null = null;
     private readonly debounceDelay = 2000;
     private isWatching = false;
-    private lastContentHash = '';
+    // Row id to a hash of its text, so in-place edits register as well as added rows
+    private rowFingerprints = new Map<string, string>();
+    private dataChangeHandler: DataChangeHandler | null = null;
 
     initialize(): void {
         if (this.isWatching) return;
@@ -22,18 +63,31 @@ export class DOMChangeObserver {
         console.log('[CRM Extractor] DOM change observer initialized');
     }
 
+    setDataChangeHandler(handler: DataChangeHandler | null): void {
+        this.dataChangeHandler = handler;
+    }
+
+    resetBaseline(): void {
+        // After a route change the old view's content is no longer "new data"
+        if (this.debounceTimer) {
+            window.clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        document.getElementById('crm-change-indicator')?.remove();
+        this.rowFingerprints = this.computeRowFingerprints();
+    }
+
     private startObserving(): void {
         const targetNode = document.body;
 
         this.observer?.observe(targetNode, {
             childList: true,
             subtree: true,
-            characterData: false,
+            characterData: true,
             attributes: false,
         });
 
-        // Store initial content hash
-        this.lastContentHash = this.computeContentHash();
+        this.rowFingerprints = this.computeRowFingerprints();
     }
 
     private handleMutations(mutations: MutationRecord[]): void {
@@ -55,6 +109,12 @@ export class DOMChangeObserver {
     }
 
     private isSignificantMutation(mutation: MutationRecord): boolean {
+        // Text edited inside an existing row is an in-place update
+        const targetElement = mutation.target instanceof Element ? mutation.target : mutation.target.parentElement;
+        if (targetElement && this.findEnclosingRow(targetElement)) {
+            return true;
+        }
+
         // Check if added nodes contain data elements
         for (const node of mutation.addedNodes) {
             if (node instanceof HTMLElement) {
@@ -68,47 +128,156 @@ export class DOMChangeObserver {
                 }
             }
         }
-        return false;
+
+        return mutation.removedNodes.length > 0 && mutation.target instanceof Element &&
+            mutation.target.matches('tbody, [role="rowgroup"], [role="grid"]');
+    }
+
+    private findEnclosingRow(element: Element): Element | null {
+        for (const selector of readTrackedRowSelectors()) {
+            try {
+                const rowElement = element.closest(selector);
+                if (rowElement) {
+                    return rowElement;
+                }
+            } catch {
+                continue;
+            }
+        }
+        return null;
     }
 
     private checkForDataChanges(): void {
-        const newHash = this.computeContentHash();
+        const currentFingerprints = this.computeRowFingerprints();
+        const changeSummary = this.compareFingerprints(this.rowFingerprints, currentFingerprints);
+
+        // Layout shifts that leave every row's content alone are not data changes
+        if (changeSummary.addedCount + changeSummary.removedCount + changeSummary.changedCount === 0) {
+            return;
+        }
+
+        this.rowFingerprints = currentFingerprints;
+        this.notifyDataChange(changeSummary);
+    }
+
+    private computeRowFingerprints(): Map<string, string> {
+        const fingerprints = new Map<string, string>();
+        const idSourceOrder = this.orderIdSources(detectCurrentView().detectedView);
+
+        for (const selector of readTrackedRowSelectors()) {
+            let rowElements: Element[];
+            try {
+                rowElements = Array.from(document.querySelectorAll(selector));
+            } catch {
+                continue;
+            }
+            if (rowElements.length === 0) continue;
 
-        if (newHash !== this.lastContentHash) {
-            this.lastContentHash = newHash;
-            this.notifyDataChange();
+            const rowHashesById = new Map<string, string[]>();
+            for (const rowElement of rowElements) {
+                const rowText = normalizeRowText(rowElement);
+                if (rowText.length === 0) continue;
+
+                const rowId = this.readRowId(rowElement, idSourceOrder);
+                rowHashesById.set(rowId, [...(rowHashesById.get(rowId) ?? []), hashText(rowText)]);
+            }
+
+            // Rows sharing a key are told apart by their content rather than their position,
+            // so reordering them is not reported as a change
+            for (const [rowId, rowHashes] of rowHashesById) {
+                if (rowHashes.length === 1) {
+                    fingerprints.set(rowId, rowHashes[0]);
+                    continue;
+                }
+
+                const twinCounts = new Map<string, number>();
+                for (const rowHash of rowHashes) {
+                    const twinIndex = (twinCounts.get(rowHash) ?? 0) + 1;
+                    twinCounts.set(rowHash, twinIndex);
+                    fingerprints.set(`${rowId}~${rowHash}#${twinIndex}`, rowHash);
+                }
+            }
+
+            break;
         }
+
+        return fingerprints;
     }
 
-    private computeContentHash(): string {
-        // Create a simple hash of the main content area
-        const contentSelectors = [
-            'table tbody',
-            '[class*="pipeline"]',
-            '[class*="contact-list"]',
-            '[class*="task-list"]',
-            'main',
+    private orderIdSources(detectedView: ViewType): Array<[string, typeof NATIVE_ID_SOURCES[string]]> {
+        const viewEntity = VIEW_ID_SOURCE[detectedView];
+        const idSources = Object.entries(NATIVE_ID_SOURCES);
+        return [
+            ...idSources.filter(([entityName]) => entityName === viewEntity),
+            ...idSources.filter(([entityName]) => entityName !== viewEntity),
         ];
+    }
 
-        let content = '';
-        for (const selector of contentSelectors) {
-            const element = document.querySelector(selector);
-            if (element) {
-                content += element.children.length.toString();
+    private readRowId(
+        rowElement: Element,
+        idSourceOrder: Array<[string, typeof NATIVE_ID_SOURCES[string]]>
+    ): string {
+        for (const [entityName, idSource] of idSourceOrder) {
+            for (const attributeName of idSource.attributes) {
+                const attributeValue = rowElement.getAttribute(attributeName) ??
+                    rowElement.querySelector(`[${attributeName}]`)?.getAttribute(attributeName);
+                if (attributeValue) {
+                    return `${entityName}-${attributeValue}`;
+                }
+            }
+
+            const linkElements = rowElement.matches('a[href]')
+                ? [rowElement, ...Array.from(rowElement.querySelectorAll('a[href]'))]
+                : Array.from(rowElement.querySelectorAll('a[href]'));
+            for (const linkElement of linkElements) {
+                const hrefMatch = (linkElement.getAttribute('href') ?? '').match(idSource.hrefPattern);
+                if (hrefMatch) {
+                    return `${entityName}-${hrefMatch[1]}`;
+                }
+            }
+        }
+
+        return `text-${hashText(normalizeRowText(rowElement.querySelector(ROW_KEY_SELECTOR) ?? rowElement))}`;
+    }
+
+    private compareFingerprints(
+        previousFingerprints: Map<string, string>,
+        currentFingerprints: Map<string, string>
+    ): RowChangeSummary {
+        let addedCount = 0;
+        let changedCount = 0;
+
+        for (const [rowId, rowHash] of currentFingerprints) {
+            const previousHash = previousFingerprints.get(rowId);
+            if (previousHash === undefined) {
+                addedCount++;
+            } else if (previousHash !== rowHash) {
+                changedCount++;
             }
         }
 
-        return content;
+        let removedCount = 0;
+        for (const rowId of previousFingerprints.keys()) {
+            if (!currentFingerprints.has(rowId)) {
+                removedCount++;
+            }
+        }
+
+        return { addedCount, removedCount, changedCount };
     }
 
-    private notifyDataChange(): void {
-        // Show notification indicator
-        this.showChangeIndicator();
+    private notifyDataChange(changeSummary: RowChangeSummary): void {
+        // Live capture saves the new rows itself, so the re-extract prompt would only be noise
+        const isCapturedLive = this.dataChangeHandler?.(changeSummary) ?? false;
+        if (!isCapturedLive && changeSummary.addedCount + changeSummary.changedCount > 0) {
+            this.showChangeIndicator(changeSummary);
+        }
 
-        // Notify service worker
-        const message = createMessage<ExtractionFailedMessage>({
-            action: MESSAGE_ACTIONS.EXTRACTION_FAILED,
-            errorMessage: 'DOM_CHANGED',
+        const message = createMessage<DataChangedMessage>({
+            action: MESSAGE_ACTIONS.DATA_CHANGED,
+            ...changeSummary,
+            urlPath: window.location.pathname,
+            isCapturedLive,
         });
 
         chrome.runtime.sendMessage(message).catch(() => {
@@ -116,9 +285,13 @@ export class DOMChangeObserver {
         });
     }
 
-    private showChangeIndicator(): void {
-        // Check if indicator already exists
-        if (document.getElementById('crm-change-indicator')) return;
+    private showChangeIndicator(changeSummary: RowChangeSummary): void {
+        // A prompt already on screen is replaced so its counts stay current
+        document.getElementById('crm-change-indicator')?.remove();
+
+        const changeParts: string[] = [];
+        if (changeSummary.addedCount > 0) changeParts.push(`${changeSummary.addedCount} new`);
+        if (changeSummary.changedCount > 0) changeParts.push(`${changeSummary.changedCount} updated`);
 
         const indicator = document.createElement('div');
         indicator.id = 'crm-change-indicator';
@@ -141,7 +314,7 @@ export class DOMChangeObserver {
                 gap: 8px;
             ">
                 <span style="font-size: 16px;">🔄</span>
-                <span>New data detected. Click to re-extract.</span>
+                <span>${changeParts.join(', ')} rows detected. Click to re-extract.</span>
             </div>
         `;
 
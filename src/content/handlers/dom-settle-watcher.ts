@@ -0,0 +1,129 @@
+/**
+ * DOM settle watcher for waiting until the page has finished rendering
+ * Uses MutationObserver in place of fixed delays, bounded by a hard timeout
+ */
+
+import { SELECTOR_CHAINS, EXTRACTION_CONFIG } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+
+export interface SettleOptions {
+    rowSelectors?: readonly string[];
+    requireRowChange?: boolean;
+    quietWindowMs?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+export interface SettleOutcome {
+    rowsChanged: boolean;
+    timedOut: boolean;
+    elapsedMs: number;
+}
+
+export class DOMSettleWatcher {
+    /**
+     * Waits until the DOM has been quiet for the configured window
+     */
+    waitUntilSettled(options: SettleOptions = {}): Promise<SettleOutcome> {
+        const rowSelectors = options.rowSelectors ?? SELECTOR_CHAINS.pagination.rowSet;
+        return this.observeUntilSettled(this.readRowSignature(rowSelectors), {
+            ...options,
+            requireRowChange: false,
+        });
+    }
+
+    /**
+     * Runs an action that loads new rows, then waits until the row set has changed
+     * and the DOM has been quiet for the configured window
+     */
+    settleAfter(trigger: () => void, options: SettleOptions = {}): Promise<SettleOutcome> {
+        const rowSelectors = options.rowSelectors ?? SELECTOR_CHAINS.pagination.rowSet;
+        const baselineSignature = this.readRowSignature(rowSelectors);
+
+        // Observing starts before the trigger so synchronous re-renders are not missed
+        const settledOutcome = this.observeUntilSettled(baselineSignature, options);
+        trigger();
+        return settledOutcome;
+    }
+
+    private observeUntilSettled(baselineSignature: string, options: SettleOptions): Promise<SettleOutcome> {
+        const rowSelectors = options.rowSelectors ?? SELECTOR_CHAINS.pagination.rowSet;
+        const requireRowChange = options.requireRowChange ?? true;
+        const quietWindowMs = options.quietWindowMs ?? EXTRACTION_CONFIG.DOM_QUIET_WINDOW_MS;
+        const timeoutMs = options.timeoutMs ?? EXTRACTION_CONFIG.DOM_SETTLE_TIMEOUT_MS;
+        const startTime = Date.now();
+
+        return new Promise(resolve => {
+            let quietTimer: number | null = null;
+            let isFinished = false;
+
+            const finish = (timedOut: boolean): void => {
+                if (isFinished) return;
+                isFinished = true;
+
+                observer.disconnect();
+                if (quietTimer) window.clearTimeout(quietTimer);
+                window.clearTimeout(hardTimeout);
+                options.signal?.removeEventListener('abort', abortWait);
+
+                resolve({
+                    rowsChanged: this.readRowSignature(rowSelectors) !== baselineSignature,
+                    timedOut,
+                    elapsedMs: Date.now() - startTime,
+                });
+            };
+
+            // A quiet DOM with the old rows still in place means the load has not landed yet
+            const checkSettled = (): void => {
+                if (!requireRowChange || this.readRowSignature(rowSelectors) !== baselineSignature) {
+                    finish(false);
+                }
+            };
+
+            const restartQuietWindow = (): void => {
+                if (quietTimer) window.clearTimeout(quietTimer);
+                quietTimer = window.setTimeout(checkSettled, quietWindowMs);
+            };
+
+            const observer = new MutationObserver(restartQuietWindow);
+            observer.observe(document.body, {
+                childList: true,
+                subtree: true,
+                characterData: true,
+                attributes: false,
+            });
+
+            const hardTimeout = window.setTimeout(() => finish(true), timeoutMs);
+
+            // A cancelled run should not sit out the rest of the quiet window
+            const abortWait = (): void => finish(false);
+            if (options.signal?.aborted) {
+                abortWait();
+                return;
+            }
+            options.signal?.addEventListener('abort', abortWait);
+
+            restartQuietWindow();
+        });
+    }
+
+    private readRowSignature(rowSelectors: readonly string[]): string {
+        for (const selector of selectorProfiles.resolve(rowSelectors)) {
+            try {
+                const rowElements = document.querySelectorAll(selector);
+                if (rowElements.length === 0) continue;
+
+                // Count plus the boundary rows catches both appended pages and replaced ones
+                const firstRowText = rowElements[0].textContent?.trim().slice(0, 200) ?? '';
+                const lastRowText = rowElements[rowElements.length - 1].textContent?.trim().slice(0, 200) ?? '';
+                return `${selector}|${rowElements.length}|${firstRowText}|${lastRowText}`;
+            } catch {
+                continue;
+            }
+        }
+
+        return '';
+    }
+}
+
+export const domSettleWatcher = new DOMSettleWatcher();
@@ -0,0 +1,175 @@
+/**
+ * Live capture controller for saving rows as they appear on the page
+ * Harvests only what is rendered and upserts the rows that are new or changed
+ */
+
+import { ACContact, ACDeal, ACTask, ACAccount } from '@shared/types';
+import { storageOrchestrator } from '@shared/storage-service';
+import { extractionIndicator } from '../indicators/extraction-indicator';
+
+type LiveCaptureRecord = ACContact | ACDeal | ACTask | ACAccount;
+
+export interface LiveCaptureTarget {
+    subView: string;
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts';
+    entityLabel: string;
+    accountHost: string;
+    // Reads the rows currently rendered, without paging or scrolling
+    harvestVisibleRows(): Promise<LiveCaptureRecord[]>;
+    onTurnOff(): void;
+}
+
+export class LiveCaptureController {
+    private target: LiveCaptureTarget | null = null;
+    private throttleMs = 0;
+    private isPaused = false;
+    private isCapturing = false;
+    private captureQueued = false;
+    private lastCaptureAt = 0;
+    private throttleTimer: number | null = null;
+    private capturedCount = 0;
+    private readonly rowFingerprints = new Map<string, string>();
+
+    get isRunning(): boolean {
+        return this.target !== null;
+    }
+
+    start(target: LiveCaptureTarget, throttleMs: number): void {
+        // Re-applying the same view keeps the session, so a settings change does not reset the count
+        if (this.target?.subView === target.subView && this.target.accountHost === target.accountHost) {
+            this.target = target;
+            this.throttleMs = throttleMs;
+            this.renderIndicator();
+            return;
+        }
+
+        this.stop();
+        this.target = target;
+        this.throttleMs = throttleMs;
+        this.renderIndicator();
+
+        // Rows already on screen when capture starts may never have been saved
+        this.requestCapture();
+    }
+
+    stop(): void {
+        if (this.throttleTimer) {
+            window.clearTimeout(this.throttleTimer);
+            this.throttleTimer = null;
+        }
+
+        this.target = null;
+        this.isPaused = false;
+        this.captureQueued = false;
+        this.capturedCount = 0;
+        this.rowFingerprints.clear();
+        extractionIndicator.clearLiveCapture();
+    }
+
+    /**
+     * Schedules a capture of the visible rows, returning false when live capture is not handling changes
+     */
+    requestCapture(): boolean {
+        if (!this.target || this.isPaused) {
+            return false;
+        }
+
+        if (this.isCapturing) {
+            this.captureQueued = true;
+            return true;
+        }
+
+        if (this.throttleTimer) {
+            return true;
+        }
+
+        const waitMs = Math.max(0, this.lastCaptureAt + this.throttleMs - Date.now());
+        this.throttleTimer = window.setTimeout(() => {
+            this.throttleTimer = null;
+            this.captureChangedRows();
+        }, waitMs);
+
+        return true;
+    }
+
+    private togglePause(): void {
+        this.isPaused = !this.isPaused;
+        this.renderIndicator();
+
+        // Rows that appeared while paused are picked up straight away
+        if (!this.isPaused) {
+            this.requestCapture();
+        }
+    }
+
+    private async captureChangedRows(): Promise<void> {
+        const target = this.target;
+        if (!target || this.isPaused) {
+            return;
+        }
+
+        this.isCapturing = true;
+        this.lastCaptureAt = Date.now();
+
+        try {
+            const visibleRows = await target.harvestVisibleRows();
+            const changedRows = visibleRows.filter(record =>
+                this.rowFingerprints.get(record.id) !== this.fingerprintRow(record)
+            );
+
+            // The view may have changed while the rows were being read
+            if (changedRows.length === 0 || this.target !== target) {
+                return;
+            }
+
+            const saveResult = await storageOrchestrator.insertRecordsWithDeduplication(
+                target.accountHost,
+                target.entityType,
+                changedRows
+            );
+
+            if (!saveResult.success) {
+                console.warn('[CRM Extractor] Live capture save failed:', saveResult.errorMessage);
+                return;
+            }
+
+            for (const record of changedRows) {
+                this.rowFingerprints.set(record.id, this.fingerprintRow(record));
+            }
+            this.capturedCount += changedRows.length;
+            this.renderIndicator();
+
+        } catch (error) {
+            console.warn('[CRM Extractor] Live capture failed:', error);
+        } finally {
+            this.isCapturing = false;
+
+            if (this.captureQueued) {
+                this.captureQueued = false;
+                this.requestCapture();
+            }
+        }
+    }
+
+    private fingerprintRow(record: LiveCaptureRecord): string {
+        // Capture time and URL differ on every pass, so they would make every row look changed
+        return JSON.stringify({ ...record, extractedAt: 0, sourceUrl: '' });
+    }
+
+    private renderIndicator(): void {
+        const target = this.target;
+        if (!target) {
+            return;
+        }
+
+        extractionIndicator.showLiveCapture(
+            target.entityLabel,
+            this.capturedCount,
+            this.isPaused,
+            () => this.togglePause(),
+            () => target.onTurnOff()
+        );
+    }
+}
+
+export const liveCaptureController = new LiveCaptureController();
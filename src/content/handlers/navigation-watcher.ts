@@ -0,0 +1,71 @@
+/**
+ * Navigation watcher for ActiveCampaign's single-page routing
+ * Reports each route change once the new view has finished rendering
+ */
+
+import { ROUTE_CHANGE_EVENT } from '@shared/constants';
+import { MESSAGE_ACTIONS, createMessage, InstallHistoryHookMessage } from '@shared/message-types';
+import { domSettleWatcher } from './dom-settle-watcher';
+
+type RouteChangeHandler = (currentUrl: string) => void;
+
+export class NavigationWatcher {
+    private routeChangeHandlers: RouteChangeHandler[] = [];
+    private lastKnownUrl = window.location.href;
+    private pendingSettle: AbortController | null = null;
+    private isWatching = false;
+
+    initialize(): void {
+        if (this.isWatching) return;
+
+        // Back/forward fire popstate here directly; pushState arrives through the page-world hook
+        window.addEventListener('popstate', this.handleLocationEvent);
+        window.addEventListener('hashchange', this.handleLocationEvent);
+        window.addEventListener(ROUTE_CHANGE_EVENT, this.handleLocationEvent);
+        this.isWatching = true;
+
+        // Only the service worker can run code in the page world
+        chrome.runtime.sendMessage(createMessage<InstallHistoryHookMessage>({
+            action: MESSAGE_ACTIONS.INSTALL_HISTORY_HOOK,
+        })).catch(() => {
+            // Without the hook, popstate and hashchange still report back/forward navigation
+        });
+    }
+
+    onRouteChange(handler: RouteChangeHandler): void {
+        this.routeChangeHandlers.push(handler);
+    }
+
+    private handleLocationEvent = (): void => {
+        const currentUrl = window.location.href;
+        if (currentUrl === this.lastKnownUrl) {
+            return;
+        }
+        this.lastKnownUrl = currentUrl;
+
+        // A quick succession of redirects only reports where the user finally landed
+        this.pendingSettle?.abort();
+        const settleController = new AbortController();
+        this.pendingSettle = settleController;
+
+        domSettleWatcher.waitUntilSettled({ signal: settleController.signal }).then(() => {
+            if (settleController.signal.aborted) return;
+            this.pendingSettle = null;
+
+            for (const handler of this.routeChangeHandlers) {
+                handler(currentUrl);
+            }
+        });
+    };
+
+    stop(): void {
+        window.removeEventListener('popstate', this.handleLocationEvent);
+        window.removeEventListener('hashchange', this.handleLocationEvent);
+        window.removeEventListener(ROUTE_CHANGE_EVENT, this.handleLocationEvent);
+        this.pendingSettle?.abort();
+        this.pendingSettle = null;
+        this.isWatching = false;
+    }
+}
+
+export const navigationWatcher = new NavigationWatcher();
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaginationHandler } from './pagination-handler';
+import { PaginationStrategy } from './pagination-strategies';
+
+function createStaleNextStrategy(): PaginationStrategy {
+    return {
+        name: 'next-button',
+        detect: () => true,
+        // The button stays on screen, but clicking it never swaps the rows
+        hasNextPage: () => true,
+        advance: async () => false,
+    };
+}
+
+describe('PaginationHandler', () => {
+    beforeEach(() => {
+        vi.stubGlobal('chrome', {
+            runtime: { sendMessage: vi.fn().mockResolvedValue(undefined) },
+        });
+    });
+
+    it('reports a next page that never loads as a stopped run, not a complete one', async () => {
+        const handler = new PaginationHandler();
+        handler.registerStrategy(createStaleNextStrategy());
+
+        const records = await handler.extractAllPages(
+            async () => [{ id: 'contact-1' }, { id: 'contact-2' }],
+            'contacts',
+            { maxPages: 5 }
+        );
+
+        expect(records).toHaveLength(2);
+        expect(handler.lastPaginationReport).toEqual({
+            strategy: 'next-button',
+            pagesVisited: 1,
+            stopReason: 'page-repeated',
+        });
+    });
+
+    it('reports a run that ran out of pages as complete', async () => {
+        const handler = new PaginationHandler();
+        handler.registerStrategy({ ...createStaleNextStrategy(), hasNextPage: () => false });
+
+        await handler.extractAllPages(async () => [{ id: 'contact-1' }], 'contacts', { maxPages: 5 });
+
+        expect(handler.lastPaginationReport?.stopReason).toBe('complete');
+    });
+});
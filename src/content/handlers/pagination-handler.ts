@@ -1,105 +1,212 @@
 /**
  * Pagination handler for extracting data across multiple pages
+ * Picks the pagination strategy that fits the current view and walks it to the end
  */
 
+import { PaginationReport, PaginationStrategyName } from '@shared/types';
+import { DEFAULT_USER_PREFERENCES, SELECTOR_CHAINS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { progressReporter } from './progress-reporter';
+import {
+    PaginationStrategy,
+    NextButtonStrategy,
+    LoadMoreButtonStrategy,
+    UrlPageParameterStrategy,
+    InfiniteScrollStrategy
+} from './pagination-strategies';
+
+export interface PageProgress<T> {
+    // Only the records this run had not collected yet, so load-more pages are not saved twice
+    pageRecords: T[];
+    pageFingerprint: string;
+    completedPages: number;
+    strategy: PaginationStrategyName;
+}
+
+const PAGE_OF_TOTAL_REGEX = /page\s+\d+\s+of\s+(\d+)/i;
+const RANGE_OF_TOTAL_REGEX = /(\d[\d,]*)\s*[-–]\s*(\d[\d,]*)\s+of\s+(\d[\d,]*)/i;
+
+export interface PaginationOptions<T = unknown> {
+    maxPages?: number;
+    signal?: AbortSignal;
+    // Pages before this one were captured by an earlier, interrupted run
+    startPage?: number;
+    // The last page that run captured, so landing on it again counts as a repeat
+    resumeFingerprint?: string;
+    onPageComplete?(progress: PageProgress<T>): Promise<void>;
+}
+
 export class PaginationHandler {
-    private readonly maxPages = 10;
-    private readonly pageLoadDelay = 1500;
+    private readonly defaultMaxPages = DEFAULT_USER_PREFERENCES.maxPages;
+    private paginationReport: PaginationReport | null = null;
+
+    // Checked in order, so explicit controls win over the scroll fallback
+    private readonly strategies: PaginationStrategy[] = [
+        new NextButtonStrategy(),
+        new LoadMoreButtonStrategy(),
+        new UrlPageParameterStrategy(),
+        new InfiniteScrollStrategy(),
+    ];
+
+    get lastPaginationReport(): PaginationReport | null {
+        return this.paginationReport;
+    }
 
-    async extractAllPages<T>(
+    registerStrategy(strategy: PaginationStrategy): void {
+        this.strategies.unshift(strategy);
+    }
+
+    async extractAllPages<T extends { id: string }>(
         extractCurrentPage: () => Promise<T[]>,
-        entityType: string
+        entityType: string,
+        options: PaginationOptions<T> = {}
     ): Promise<T[]> {
-        const allRecords: T[] = [];
+        const maxPages = Math.max(1, options.maxPages ?? this.defaultMaxPages);
+        const strategy = this.detectStrategy();
+        const strategyName = strategy?.name ?? 'single-page';
+
+        // Load-more and scroll strategies keep earlier rows on screen, so records are keyed by id
+        const recordsById = new Map<string, T>();
+        const seenFingerprints = new Set<string>();
+        let stopReason: PaginationReport['stopReason'] = 'complete';
         let currentPage = 1;
 
-        while (currentPage <= this.maxPages) {
-            // Extract current page
+        if (strategy && (options.startPage ?? 1) > 1) {
+            currentPage = await this.skipToPage(strategy, options.startPage ?? 1, options.signal);
+        }
+
+        if (options.resumeFingerprint) {
+            seenFingerprints.add(options.resumeFingerprint);
+        }
+
+        const firstPage = currentPage;
+        const totalPages = strategy ? this.readTotalPages() : 1;
+        progressReporter.reportPageStarted();
+
+        for (;;) {
             const pageRecords = await extractCurrentPage();
-            allRecords.push(...pageRecords);
 
-            // Check for next page
-            const nextButton = this.findNextButton();
-            if (!nextButton || this.isLastPage()) {
+            // Clicking next on a page that never changes would otherwise collect the same rows repeatedly
+            const pageFingerprint = this.fingerprintPage(pageRecords);
+            if (seenFingerprints.has(pageFingerprint)) {
+                stopReason = 'page-repeated';
+                currentPage--;
                 break;
             }
+            seenFingerprints.add(pageFingerprint);
 
-            // Click next and wait for load
-            nextButton.click();
-            await this.waitForPageLoad();
-            currentPage++;
-        }
+            const newRecords = pageRecords.filter(record => !recordsById.has(record.id));
+            for (const record of pageRecords) {
+                recordsById.set(record.id, record);
+            }
 
-        console.log(`[CRM Extractor] Extracted ${allRecords.length} ${entityType} across ${currentPage} pages`);
-        return allRecords;
-    }
+            await options.onPageComplete?.({
+                pageRecords: newRecords,
+                pageFingerprint,
+                completedPages: currentPage,
+                strategy: strategyName,
+            });
+            progressReporter.reportPageComplete(
+                currentPage,
+                strategy ? maxPages : currentPage,
+                totalPages,
+                recordsById.size,
+                firstPage
+            );
+
+            // Records collected before a cancel are returned so the caller can decide whether to keep them
+            if (!strategy || options.signal?.aborted) {
+                break;
+            }
 
-    private findNextButton(): HTMLElement | null {
-        const nextSelectors = [
-            'button[aria-label="Next"]',
-            'button[aria-label="Next page"]',
-            '.pagination-next',
-            '[class*="pagination"] button:last-child',
-            'a[rel="next"]',
-            'button:has(svg[class*="chevron-right"])',
-            '[class*="Pagination"] button:last-of-type',
-            'nav button:last-child',
-        ];
-
-        for (const selector of nextSelectors) {
-            try {
-                const element = document.querySelector(selector) as HTMLElement;
-                if (element && this.isVisible(element)) {
-                    if (element instanceof HTMLButtonElement || element instanceof HTMLInputElement) {
-                        if (!element.disabled) return element;
-                    } else {
-                        return element;
-                    }
+            if (currentPage >= maxPages) {
+                if (strategy.hasNextPage()) {
+                    stopReason = 'page-limit';
                 }
-            } catch {
-                continue;
+                break;
             }
-        }
 
-        // Fallback: find button with "Next" text
-        const buttons = document.querySelectorAll('button, a');
-        for (const btn of buttons) {
-            const text = btn.textContent?.toLowerCase().trim() ?? '';
-            if (text === 'next' || text === '>' || text === '→') {
-                return btn as HTMLElement;
+            if (!(await strategy.advance(options.signal))) {
+                // Next was there but the rows never changed, so the run stopped short rather than finished
+                if (!options.signal?.aborted && strategy.hasNextPage()) {
+                    stopReason = 'page-repeated';
+                }
+                break;
             }
+
+            currentPage++;
         }
 
-        return null;
+        if (options.signal?.aborted) {
+            stopReason = 'cancelled';
+        }
+
+        this.paginationReport = {
+            strategy: strategyName,
+            pagesVisited: currentPage,
+            stopReason,
+        };
+
+        console.log(
+            `[CRM Extractor] Extracted ${recordsById.size} ${entityType} across ${currentPage} pages ` +
+            `using ${strategyName} (${stopReason})`
+        );
+        return Array.from(recordsById.values());
     }
 
-    private isLastPage(): boolean {
-        const nextBtn = this.findNextButton();
-        if (!nextBtn) return true;
+    private async skipToPage(
+        strategy: PaginationStrategy,
+        targetPage: number,
+        signal?: AbortSignal
+    ): Promise<number> {
+        if (strategy.seekToPage) {
+            return (await strategy.seekToPage(targetPage, signal)) ? targetPage : 1;
+        }
 
-        // Check if disabled
-        if (nextBtn instanceof HTMLButtonElement || nextBtn instanceof HTMLInputElement) {
-            if (nextBtn.disabled) return true;
+        // Without direct addressing the earlier pages are walked again, just not re-extracted
+        let reachedPage = 1;
+        while (reachedPage < targetPage && !signal?.aborted && (await strategy.advance(signal))) {
+            reachedPage++;
         }
 
-        if (nextBtn.hasAttribute('disabled')) return true;
-        if (nextBtn.classList.contains('disabled')) return true;
-        if (nextBtn.getAttribute('aria-disabled') === 'true') return true;
+        return reachedPage;
+    }
 
-        return false;
+    private readTotalPages(): number | null {
+        for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.pagination.pageIndicator)) {
+            try {
+                const indicatorText = document.querySelector(selector)?.textContent ?? '';
+
+                const pageMatch = indicatorText.match(PAGE_OF_TOTAL_REGEX);
+                if (pageMatch) {
+                    return parseInt(pageMatch[1], 10);
+                }
+
+                // "21-40 of 340" gives the page size and the record total
+                const rangeMatch = indicatorText.match(RANGE_OF_TOTAL_REGEX);
+                if (rangeMatch) {
+                    const [rangeStart, rangeEnd, recordTotal] = rangeMatch.slice(1)
+                        .map(value => parseInt(value.replace(/,/g, ''), 10));
+                    const pageSize = rangeEnd - rangeStart + 1;
+                    return pageSize > 0 ? Math.ceil(recordTotal / pageSize) : null;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        return null;
     }
 
-    private isVisible(element: HTMLElement): boolean {
-        const style = window.getComputedStyle(element);
-        return style.display !== 'none' &&
-            style.visibility !== 'hidden' &&
-            style.opacity !== '0';
+    private detectStrategy(): PaginationStrategy | null {
+        return this.strategies.find(strategy => strategy.detect()) ?? null;
     }
 
-    private waitForPageLoad(): Promise<void> {
-        return new Promise(resolve => {
-            setTimeout(resolve, this.pageLoadDelay);
-        });
+    private fingerprintPage(pageRecords: Array<{ id: string }>): string {
+        return pageRecords
+            .map(record => record.id)
+            .sort()
+            .join('|');
     }
 }
 
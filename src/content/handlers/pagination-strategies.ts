@@ -0,0 +1,256 @@
+/**
+ * Pagination strategies for the different ways ActiveCampaign lists load more records
+ * Each strategy detects whether it applies to the current view and advances one page
+ */
+
+import { PaginationStrategyName } from '@shared/types';
+import { SELECTOR_CHAINS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { domSettleWatcher } from './dom-settle-watcher';
+
+export interface PaginationStrategy {
+    readonly name: PaginationStrategyName;
+    detect(): boolean;
+    hasNextPage(): boolean;
+    // Resolves false when there is nothing further to load
+    advance(signal?: AbortSignal): Promise<boolean>;
+    // Strategies that can address a page directly skip clicking through the earlier ones
+    seekToPage?(pageNumber: number, signal?: AbortSignal): Promise<boolean>;
+}
+
+const NEXT_BUTTON_FALLBACK_SELECTORS = [
+    'button[aria-label="Next"]',
+    'a[rel="next"]',
+    'button:has(svg[class*="chevron-right"])',
+];
+
+const NEXT_BUTTON_LABELS = ['next', 'next page', '>', '›', '→'];
+
+const LOAD_MORE_TEXT_PATTERN = /^(load|show|view) more\b/i;
+
+const PAGE_PARAMETER = 'page';
+
+function findFirstVisible(selectors: readonly string[]): HTMLElement | null {
+    for (const selector of selectorProfiles.resolve(selectors)) {
+        try {
+            for (const element of document.querySelectorAll<HTMLElement>(selector)) {
+                if (isVisible(element)) {
+                    return element;
+                }
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return null;
+}
+
+function findByText(matchesText: (text: string) => boolean): HTMLElement | null {
+    for (const element of document.querySelectorAll<HTMLElement>('button, a')) {
+        const elementText = element.textContent?.toLowerCase().trim() ?? '';
+        if (matchesText(elementText) && isVisible(element)) {
+            return element;
+        }
+    }
+
+    return null;
+}
+
+function isVisible(element: HTMLElement): boolean {
+    const style = window.getComputedStyle(element);
+    return style.display !== 'none' &&
+        style.visibility !== 'hidden' &&
+        style.opacity !== '0';
+}
+
+function isDisabled(element: HTMLElement): boolean {
+    if (element instanceof HTMLButtonElement || element instanceof HTMLInputElement) {
+        if (element.disabled) return true;
+    }
+
+    return element.hasAttribute('disabled') ||
+        element.classList.contains('disabled') ||
+        element.getAttribute('aria-disabled') === 'true';
+}
+
+export class NextButtonStrategy implements PaginationStrategy {
+    readonly name = 'next-button';
+
+    detect(): boolean {
+        return this.findNextButton() !== null;
+    }
+
+    hasNextPage(): boolean {
+        const nextButton = this.findNextButton();
+        return nextButton !== null && !isDisabled(nextButton);
+    }
+
+    async advance(signal?: AbortSignal): Promise<boolean> {
+        const nextButton = this.findNextButton();
+        if (!nextButton || isDisabled(nextButton)) {
+            return false;
+        }
+
+        // A page whose rows never changed is stale, so it is not worth extracting again
+        const settleOutcome = await domSettleWatcher.settleAfter(() => nextButton.click(), { signal });
+        return settleOutcome.rowsChanged;
+    }
+
+    private findNextButton(): HTMLElement | null {
+        // Positional selectors like "last button in a nav" matched unrelated controls, so only labelled ones count
+        return findFirstVisible([
+            ...selectorProfiles.resolve(SELECTOR_CHAINS.pagination.nextButton),
+            ...NEXT_BUTTON_FALLBACK_SELECTORS,
+        ]) ??
+            findByText(text => NEXT_BUTTON_LABELS.includes(text));
+    }
+}
+
+export class LoadMoreButtonStrategy implements PaginationStrategy {
+    readonly name = 'load-more-button';
+
+    detect(): boolean {
+        return this.hasNextPage();
+    }
+
+    hasNextPage(): boolean {
+        const loadMoreButton = this.findLoadMoreButton();
+        return loadMoreButton !== null && !isDisabled(loadMoreButton);
+    }
+
+    async advance(signal?: AbortSignal): Promise<boolean> {
+        const loadMoreButton = this.findLoadMoreButton();
+        if (!loadMoreButton || isDisabled(loadMoreButton)) {
+            return false;
+        }
+
+        const settleOutcome = await domSettleWatcher.settleAfter(() => loadMoreButton.click(), { signal });
+        return settleOutcome.rowsChanged;
+    }
+
+    private findLoadMoreButton(): HTMLElement | null {
+        return findFirstVisible(SELECTOR_CHAINS.pagination.loadMoreButton) ??
+            findByText(text => LOAD_MORE_TEXT_PATTERN.test(text));
+    }
+}
+
+export class UrlPageParameterStrategy implements PaginationStrategy {
+    readonly name = 'url-page-parameter';
+
+    detect(): boolean {
+        return this.readCurrentPage() !== null || this.findPageLink(2) !== null;
+    }
+
+    hasNextPage(): boolean {
+        return this.findPageLink((this.readCurrentPage() ?? 1) + 1) !== null;
+    }
+
+    advance(signal?: AbortSignal): Promise<boolean> {
+        return this.seekToPage((this.readCurrentPage() ?? 1) + 1, signal);
+    }
+
+    async seekToPage(pageNumber: number, signal?: AbortSignal): Promise<boolean> {
+        const settleOutcome = await domSettleWatcher.settleAfter(() => {
+            // Following the app's own link lets its router fetch the page without a full reload
+            const pageLink = this.findPageLink(pageNumber);
+            if (pageLink) {
+                pageLink.click();
+                return;
+            }
+
+            const pageUrl = new URL(window.location.href);
+            pageUrl.searchParams.set(PAGE_PARAMETER, String(pageNumber));
+            window.history.pushState(window.history.state, '', pageUrl.toString());
+            window.dispatchEvent(new PopStateEvent('popstate', { state: window.history.state }));
+        }, { signal });
+
+        return settleOutcome.rowsChanged;
+    }
+
+    private readCurrentPage(): number | null {
+        const pageValue = new URL(window.location.href).searchParams.get(PAGE_PARAMETER);
+        const pageNumber = pageValue ? parseInt(pageValue, 10) : NaN;
+        return isNaN(pageNumber) ? null : pageNumber;
+    }
+
+    private findPageLink(pageNumber: number): HTMLElement | null {
+        for (const linkElement of document.querySelectorAll<HTMLAnchorElement>(`a[href*="${PAGE_PARAMETER}="]`)) {
+            try {
+                const linkUrl = new URL(linkElement.href, window.location.href);
+                if (linkUrl.pathname === window.location.pathname &&
+                    linkUrl.searchParams.get(PAGE_PARAMETER) === String(pageNumber)) {
+                    return linkElement;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        return null;
+    }
+}
+
+export class InfiniteScrollStrategy implements PaginationStrategy {
+    readonly name = 'infinite-scroll';
+
+    detect(): boolean {
+        return this.findScrollContainer() !== null;
+    }
+
+    hasNextPage(): boolean {
+        const scrollContainer = this.findScrollContainer();
+        // Still at the bottom after the previous load means the list has nothing further to fetch
+        return scrollContainer !== null &&
+            scrollContainer.scrollTop + scrollContainer.clientHeight < scrollContainer.scrollHeight - 2;
+    }
+
+    async advance(signal?: AbortSignal): Promise<boolean> {
+        const scrollContainer = this.findScrollContainer();
+        if (!scrollContainer || !this.hasNextPage()) {
+            return false;
+        }
+
+        const settleOutcome = await domSettleWatcher.settleAfter(() => {
+            scrollContainer.scrollTop = scrollContainer.scrollHeight;
+        }, { signal });
+
+        // Virtualized lists swap rows without growing, which the row signature still registers
+        return settleOutcome.rowsChanged;
+    }
+
+    private findScrollContainer(): Element | null {
+        for (const selector of selectorProfiles.resolve(SELECTOR_CHAINS.pagination.scrollContainer)) {
+            try {
+                const listElement = document.querySelector(selector);
+                const scrollContainer = listElement ? this.findScrollableAncestor(listElement) : null;
+                if (scrollContainer) {
+                    return scrollContainer;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        return null;
+    }
+
+    private findScrollableAncestor(element: Element): Element | null {
+        let current: Element | null = element;
+
+        while (current && current !== document.body && current !== document.documentElement) {
+            const overflowValue = window.getComputedStyle(current).overflowY;
+            if ((overflowValue === 'auto' || overflowValue === 'scroll') &&
+                current.scrollHeight > current.clientHeight) {
+                return current;
+            }
+            current = current.parentElement;
+        }
+
+        // Lists that grow the whole page scroll the document itself
+        const documentScroller = document.scrollingElement;
+        return documentScroller && documentScroller.scrollHeight > window.innerHeight
+            ? documentScroller
+            : null;
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Progress reporter for publishing extraction progress while a run is underway
+ * Feeds both the popup (through runtime messages) and the on-page indicator
+ */
+
+import { ExtractionProgress } from '@shared/types';
+import { MESSAGE_ACTIONS, createMessage, ExtractionProgressMessage } from '@shared/message-types';
+import { extractionIndicator } from '../indicators/extraction-indicator';
+
+// Page extraction fills the span between detection and saving
+const EXTRACTING_START_PERCENT = 5;
+const EXTRACTING_END_PERCENT = 90;
+const SAVING_PERCENT = 95;
+
+export class ExtractionProgressReporter {
+    private pagesStartedAt: number | null = null;
+
+    reportDetecting(): void {
+        this.pagesStartedAt = null;
+        this.publish({
+            currentPhase: 'detecting',
+            progressPercent: 0,
+            statusMessage: 'Detecting page type',
+            currentPage: null,
+            totalPages: null,
+            recordCount: 0,
+            estimatedSecondsRemaining: null,
+        });
+    }
+
+    reportPageStarted(): void {
+        if (this.pagesStartedAt === null) {
+            this.pagesStartedAt = Date.now();
+        }
+    }
+
+    reportPageComplete(
+        completedPage: number,
+        pageLimit: number,
+        totalPages: number | null,
+        recordCount: number,
+        firstPage: number = 1
+    ): void {
+        // Without a page count from the list itself, the page limit is the best available upper bound
+        const expectedPages = Math.min(totalPages ?? pageLimit, pageLimit);
+        const pagesDone = completedPage - firstPage + 1;
+        const pagesRemaining = Math.max(expectedPages - completedPage, 0);
+        const elapsedMs = this.pagesStartedAt === null ? 0 : Date.now() - this.pagesStartedAt;
+        const extractingSpan = EXTRACTING_END_PERCENT - EXTRACTING_START_PERCENT;
+
+        this.publish({
+            currentPhase: 'extracting',
+            progressPercent: Math.round(
+                EXTRACTING_START_PERCENT + extractingSpan * Math.min(completedPage / expectedPages, 1)
+            ),
+            statusMessage: totalPages === null
+                ? `Page ${completedPage} of up to ${expectedPages}`
+                : `Page ${completedPage} of ${expectedPages}`,
+            currentPage: completedPage,
+            totalPages,
+            recordCount,
+            estimatedSecondsRemaining: pagesDone > 0
+                ? Math.round((elapsedMs / pagesDone) * pagesRemaining / 1000)
+                : null,
+        });
+    }
+
+    reportSaving(recordCount: number): void {
+        this.publish({
+            currentPhase: 'saving',
+            progressPercent: SAVING_PERCENT,
+            statusMessage: `Saving ${recordCount} records`,
+            currentPage: null,
+            totalPages: null,
+            recordCount,
+            estimatedSecondsRemaining: 0,
+        });
+    }
+
+    reportFinished(succeeded: boolean, recordCount: number): void {
+        this.publish({
+            currentPhase: succeeded ? 'complete' : 'failed',
+            progressPercent: 100,
+            statusMessage: succeeded ? `Saved ${recordCount} records` : 'Extraction failed',
+            currentPage: null,
+            totalPages: null,
+            recordCount,
+            estimatedSecondsRemaining: null,
+        });
+    }
+
+    private publish(progress: ExtractionProgress): void {
+        extractionIndicator.showProgress(progress);
+
+        const message = createMessage<ExtractionProgressMessage>({
+            action: MESSAGE_ACTIONS.EXTRACTION_PROGRESS,
+            progress,
+        });
+
+        chrome.runtime.sendMessage(message).catch(() => {
+            // Popup may be closed
+        });
+    }
+}
+
+export const progressReporter = new ExtractionProgressReporter();
@@ -0,0 +1,98 @@
+/**
+ * Run recorder for collecting per-run statistics while an extraction is underway
+ * Saves one entry to the run history when the run ends, whatever the outcome
+ */
+
+import {
+    ExtractionRunEntry,
+    PaginationReport,
+    RecordMergeSummary,
+    RunTouchedRecord,
+    ViewDetectionResult
+} from '@shared/types';
+import { EXTRACTION_CONFIG } from '@shared/constants';
+import { runHistoryStore } from '@shared/run-history-service';
+import { selectorDiagnostics } from './selector-diagnostics';
+
+export class ExtractionRunRecorder {
+    private currentRun: ExtractionRunEntry | null = null;
+
+    begin(viewResult: ViewDetectionResult, accountHost: string): void {
+        const startedAt = Date.now();
+
+        this.currentRun = {
+            runId: `run-${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+            accountHost,
+            subView: viewResult.subView,
+            sourceUrl: window.location.href,
+            startedAt,
+            finishedAt: startedAt,
+            outcome: 'success',
+            paginationStrategy: null,
+            pagesVisited: null,
+            recordsFound: 0,
+            insertedCount: 0,
+            updatedCount: 0,
+            unchangedCount: 0,
+            touchedRecords: [],
+            warnings: [],
+            errorMessage: null,
+            fieldDiagnostics: [],
+        };
+        selectorDiagnostics.beginRun();
+    }
+
+    recordPagination(paginationReport: PaginationReport | null): void {
+        if (!this.currentRun || !paginationReport) return;
+
+        this.currentRun.paginationStrategy = paginationReport.strategy;
+        this.currentRun.pagesVisited = paginationReport.pagesVisited;
+    }
+
+    recordSave(
+        entityType: RunTouchedRecord['entityType'],
+        recordsFound: number,
+        mergeSummary: RecordMergeSummary
+    ): void {
+        if (!this.currentRun) return;
+
+        this.currentRun.recordsFound += recordsFound;
+        this.currentRun.insertedCount += mergeSummary.insertedIds.length;
+        this.currentRun.updatedCount += mergeSummary.updatedIds.length;
+        this.currentRun.unchangedCount += mergeSummary.unchangedIds.length;
+
+        // Unchanged records are only counted, so a large re-extraction does not bloat the log
+        const touchedRecords: RunTouchedRecord[] = [
+            ...mergeSummary.insertedIds.map(recordId => ({ entityType, recordId, change: 'inserted' as const })),
+            ...mergeSummary.updatedIds.map(recordId => ({ entityType, recordId, change: 'updated' as const })),
+        ];
+        this.currentRun.touchedRecords = [...this.currentRun.touchedRecords, ...touchedRecords]
+            .slice(0, EXTRACTION_CONFIG.RUN_TOUCHED_RECORDS_LIMIT);
+    }
+
+    recordWarning(warningMessage: string | undefined): void {
+        if (!this.currentRun || !warningMessage) return;
+
+        this.currentRun.warnings.push(warningMessage);
+    }
+
+    async finish(outcome: ExtractionRunEntry['outcome'], errorMessage: string | null = null): Promise<void> {
+        const finishedRun = this.currentRun;
+        this.currentRun = null;
+        if (!finishedRun) return;
+
+        const saveResult = await runHistoryStore.appendRun({
+            ...finishedRun,
+            finishedAt: Date.now(),
+            outcome,
+            errorMessage,
+            fieldDiagnostics: selectorDiagnostics.finishRun(),
+        });
+
+        if (!saveResult.success) {
+            console.warn('[CRM Extractor] Failed to save run history:', saveResult.errorMessage);
+        }
+    }
+}
+
+export const runRecorder = new ExtractionRunRecorder();
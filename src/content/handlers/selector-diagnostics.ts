@@ -0,0 +1,55 @@
+/**
+ * Selector diagnostics for tracking how well each selector chain matches during a run
+ * Records which selector answered each lookup so a redesign shows up as falling fill rates
+ */
+
+import { FieldDiagnostics } from '@shared/types';
+import { findChainPath, selectorProfiles } from '@shared/selector-profile-service';
+
+export class SelectorDiagnostics {
+    private fieldStats = new Map<string, FieldDiagnostics>();
+    private isRecording = false;
+
+    beginRun(): void {
+        this.fieldStats = new Map();
+        this.isRecording = true;
+    }
+
+    /**
+     * Records one lookup against a chain; a null selector means nothing in the chain matched
+     */
+    recordLookup(selectors: readonly string[], matchedSelector: string | null): void {
+        if (!this.isRecording) return;
+
+        // Ad hoc chains built inside an extractor are not part of the tracked set
+        const chainPath = findChainPath(selectors);
+        if (!chainPath) return;
+
+        const fieldStat = this.fieldStats.get(chainPath) ?? {
+            chainPath,
+            lookupCount: 0,
+            filledCount: 0,
+            fallbackCount: 0,
+            selectorHits: {},
+        };
+
+        fieldStat.lookupCount++;
+        if (matchedSelector !== null) {
+            fieldStat.filledCount++;
+            fieldStat.selectorHits[matchedSelector] = (fieldStat.selectorHits[matchedSelector] ?? 0) + 1;
+            if (matchedSelector !== selectorProfiles.resolve(selectors)[0]) {
+                fieldStat.fallbackCount++;
+            }
+        }
+
+        this.fieldStats.set(chainPath, fieldStat);
+    }
+
+    finishRun(): FieldDiagnostics[] {
+        this.isRecording = false;
+        return Array.from(this.fieldStats.values())
+            .sort((first, second) => first.chainPath.localeCompare(second.chainPath));
+    }
+}
+
+export const selectorDiagnostics = new SelectorDiagnostics();
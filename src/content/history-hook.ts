@@ -0,0 +1,31 @@
+/**
+ * Page-world hook for single-page app navigation
+ * Wraps the History API so the isolated content script hears about route changes
+ */
+
+/**
+ * Injected by the service worker with chrome.scripting.executeScript in the MAIN world.
+ * The function is serialized on its own, so it must not reference anything outside its body.
+ */
+export function installHistoryHook(routeChangeEvent: string): void {
+    const hookedWindow = window as Window & { __crmExtractorHistoryHook?: boolean };
+    // A reloaded extension injects again into pages that still carry the earlier hook
+    if (hookedWindow.__crmExtractorHistoryHook) {
+        return;
+    }
+    hookedWindow.__crmExtractorHistoryHook = true;
+
+    const wrapHistoryMethod = (methodName: 'pushState' | 'replaceState'): void => {
+        const originalMethod = window.history[methodName];
+
+        window.history[methodName] = function (this: History, ...methodArgs: Parameters<History['pushState']>) {
+            const result = originalMethod.apply(this, methodArgs);
+            window.dispatchEvent(new Event(routeChangeEvent));
+            return result;
+        };
+    };
+
+    // The content script's own copy of history is separate, so the app's router calls are only visible here
+    wrapHistoryMethod('pushState');
+    wrapHistoryMethod('replaceState');
+}
@@ -7,21 +7,62 @@ import { detectCurrentView, isActiveCampaignDomain } from './detectors/view-dete
 import { ContactDataHarvester } from './extractors/contact-extractor';
 import { DealDataHarvester } from './extractors/deal-extractor';
 import { TaskDataHarvester } from './extractors/task-extractor';
+import { AccountDataHarvester } from './extractors/account-extractor';
+import { ActivityDataHarvester } from './extractors/activity-extractor';
+import { HarvesterOptions } from './extractors/base-extractor';
 import { extractionIndicator } from './indicators/extraction-indicator';
 import { storageOrchestrator } from '@shared/storage-service';
-import { paginationHandler } from './handlers/pagination-handler';
+import { STORAGE_KEYS } from '@shared/constants';
+import { preferencesStore } from '@shared/preferences-service';
+import { selectorProfiles } from '@shared/selector-profile-service';
+import { paginationHandler, PaginationOptions } from './handlers/pagination-handler';
 import { domChangeObserver } from './handlers/dom-change-observer';
+import { progressReporter } from './handlers/progress-reporter';
+import { navigationWatcher } from './handlers/navigation-watcher';
+import { liveCaptureController, LiveCaptureTarget } from './handlers/live-capture';
+import { runRecorder } from './handlers/run-recorder';
 import {
     MESSAGE_ACTIONS,
     MessageResponse,
     createMessage,
+    ExtractionStartedMessage,
     ExtractionCompleteMessage,
-    ExtractionFailedMessage
+    ExtractionFailedMessage,
+    CancelExtractionMessage,
+    TestSelectorChainMessage,
+    ViewChangedMessage
 } from '@shared/message-types';
-import { ViewType, ACContact, ACDeal, ACTask } from '@shared/types';
+import {
+    ViewDetectionResult,
+    ExtractionRunResult,
+    ExtractionCheckpoint,
+    RunTouchedRecord,
+    SelectorTestResult,
+    ACContact,
+    ACDeal,
+    ACTask,
+    ACAccount,
+    ACActivity
+} from '@shared/types';
+
+class ExtractionCancelledError extends Error {
+    constructor() {
+        super('Extraction cancelled before any records were saved');
+        this.name = 'ExtractionCancelledError';
+    }
+}
 
 class ContentScriptOrchestrator {
     private isExtracting = false;
+    private paginationOptions: PaginationOptions = {};
+    private extractionController: AbortController | null = null;
+    private keepPartialResults = true;
+    private resumeCheckpoint: ExtractionCheckpoint | null = null;
+    private checkpointPath = window.location.pathname;
+    // Pages are saved as they complete, so discarding a cancelled run has to take them back out
+    private insertedRecordIds: Array<Omit<RunTouchedRecord, 'change'>> = [];
+    // Route changes stay on one host, so the storage partition is fixed for the page's lifetime
+    private readonly accountHost = window.location.hostname.toLowerCase();
 
     initialize(): void {
         if (!isActiveCampaignDomain()) {
@@ -30,7 +71,182 @@ class ContentScriptOrchestrator {
 
         this.registerMessageListeners();
         extractionIndicator.initialize();
+        extractionIndicator.onCancelRequested(keepPartialResults => this.cancelExtraction(keepPartialResults));
         domChangeObserver.initialize();
+        domChangeObserver.setDataChangeHandler(() => liveCaptureController.requestCapture());
+        navigationWatcher.initialize();
+        navigationWatcher.onRouteChange(() => this.handleRouteChange());
+        this.registerPreferenceListener();
+        selectorProfiles.watchActiveProfile(() => this.handleSelectorProfileChange());
+
+        const viewResult = detectCurrentView();
+        this.publishCurrentView(viewResult);
+        this.offerCheckpointResume();
+        this.refreshLiveCapture(viewResult);
+    }
+
+    private registerPreferenceListener(): void {
+        // Live capture is switched on and off from the popup settings while the page stays open
+        chrome.storage.onChanged.addListener((changes, namespace) => {
+            if (namespace === 'local' && changes[STORAGE_KEYS.USER_PREFERENCES] && !this.isExtracting) {
+                this.refreshLiveCapture(detectCurrentView());
+            }
+        });
+    }
+
+    private handleSelectorProfileChange(): void {
+        // A running extraction keeps the selectors it started with in its diagnostics
+        if (this.isExtracting) {
+            return;
+        }
+
+        // Edited chains can change which view is detected and which rows are tracked
+        domChangeObserver.resetBaseline();
+        this.publishCurrentView(detectCurrentView());
+    }
+
+    private async refreshLiveCapture(viewResult: ViewDetectionResult): Promise<void> {
+        const preferences = await preferencesStore.retrievePreferences();
+        const liveCaptureTarget = preferences.liveCaptureViews.includes(viewResult.subView)
+            ? this.buildLiveCaptureTarget(viewResult, { numberLocale: preferences.numberLocale })
+            : null;
+
+        if (liveCaptureTarget) {
+            liveCaptureController.start(liveCaptureTarget, preferences.liveCaptureThrottleMs);
+        } else {
+            liveCaptureController.stop();
+        }
+    }
+
+    private buildLiveCaptureTarget(
+        viewResult: ViewDetectionResult,
+        harvesterOptions: HarvesterOptions
+    ): LiveCaptureTarget | null {
+        const subView = viewResult.subView;
+        const targetBase = {
+            subView,
+            accountHost: this.accountHost,
+            onTurnOff: () => this.disableLiveCapture(subView),
+        };
+
+        switch (subView) {
+            case 'pipeline_board': {
+                const harvester = new DealDataHarvester(harvesterOptions);
+                return {
+                    ...targetBase,
+                    entityType: 'deals',
+                    entityLabel: 'Pipeline board',
+                    harvestVisibleRows: async () => harvester.harvestVisibleCards(),
+                };
+            }
+
+            case 'deals_list': {
+                const harvester = new DealDataHarvester(harvesterOptions);
+                return {
+                    ...targetBase,
+                    entityType: 'deals',
+                    entityLabel: 'Deals',
+                    harvestVisibleRows: () => harvester.harvestListRecords(),
+                };
+            }
+
+            case 'contact_list':
+            case 'segment_list': {
+                const harvester = new ContactDataHarvester(harvesterOptions);
+                return {
+                    ...targetBase,
+                    entityType: 'contacts',
+                    entityLabel: viewResult.activeFilter ? `Contacts in ${viewResult.activeFilter}` : 'Contacts',
+                    harvestVisibleRows: () => harvester.harvestRecords(),
+                };
+            }
+
+            case 'tasks_list':
+            case 'tasks_calendar': {
+                const harvester = new TaskDataHarvester(harvesterOptions);
+                return {
+                    ...targetBase,
+                    entityType: 'tasks',
+                    entityLabel: 'Tasks',
+                    harvestVisibleRows: () => harvester.harvestRecords(),
+                };
+            }
+
+            case 'accounts_list': {
+                const harvester = new AccountDataHarvester(harvesterOptions);
+                return {
+                    ...targetBase,
+                    entityType: 'accounts',
+                    entityLabel: 'Accounts',
+                    harvestVisibleRows: () => harvester.harvestRecords(),
+                };
+            }
+
+            default:
+                return null;
+        }
+    }
+
+    private async disableLiveCapture(subView: string): Promise<void> {
+        const preferences = await preferencesStore.retrievePreferences();
+        await preferencesStore.updatePreferences({
+            liveCaptureViews: preferences.liveCaptureViews.filter(view => view !== subView),
+        });
+    }
+
+    private handleRouteChange(): void {
+        // Pagination moves through URLs itself, which is not the user leaving the view
+        if (this.isExtracting) {
+            return;
+        }
+
+        const viewResult = detectCurrentView();
+
+        domChangeObserver.resetBaseline();
+        this.publishCurrentView(viewResult);
+        this.refreshLiveCapture(viewResult);
+    }
+
+    private publishCurrentView(viewResult: ViewDetectionResult): void {
+        const message = createMessage<ViewChangedMessage>({
+            action: MESSAGE_ACTIONS.VIEW_CHANGED,
+            viewResult,
+        });
+
+        chrome.runtime.sendMessage(message).catch(() => {
+            // Service worker may not be listening
+        });
+    }
+
+    private async offerCheckpointResume(): Promise<void> {
+        const checkpoint = await storageOrchestrator.retrieveExtractionCheckpoint(
+            this.accountHost,
+            window.location.pathname
+        );
+        if (!checkpoint) {
+            return;
+        }
+
+        // Only the list the run was interrupted on can pick up where it left off
+        const viewResult = detectCurrentView();
+        if (viewResult.detectedView !== checkpoint.entityType ||
+            viewResult.isDetailView ||
+            checkpoint.accountHost !== this.accountHost ||
+            window.location.pathname !== checkpoint.urlPath) {
+            return;
+        }
+
+        extractionIndicator.showResumeOffer(
+            checkpoint.entityType,
+            checkpoint.completedPages + 1,
+            () => {
+                this.executeExtraction(() => undefined, checkpoint);
+            },
+            () => {
+                extractionIndicator.hide();
+                storageOrchestrator.clearExtractionCheckpoint(checkpoint.accountHost, checkpoint.urlPath);
+            }
+        );
     }
 
     private registerMessageListeners(): void {
@@ -49,20 +265,22 @@ class ContentScriptOrchestrator {
                 this.executeExtraction(sendResponse);
                 break;
 
+            case MESSAGE_ACTIONS.CANCEL_EXTRACTION:
+                sendResponse({
+                    success: this.cancelExtraction((message as CancelExtractionMessage).keepPartialResults),
+                });
+                break;
+
             case MESSAGE_ACTIONS.CHECK_VIEW_TYPE:
                 this.respondWithViewType(sendResponse);
                 break;
 
-            case MESSAGE_ACTIONS.PING_CONTENT_SCRIPT:
-                sendResponse({ success: true, payload: { alive: true } });
+            case MESSAGE_ACTIONS.TEST_SELECTOR_CHAIN:
+                this.respondWithSelectorTest((message as TestSelectorChainMessage).selectors, sendResponse);
                 break;
 
-            case MESSAGE_ACTIONS.EXTRACTION_FAILED:
-                const errorMsg = (message as any).errorMessage;
-                if (errorMsg === 'DOM_CHANGED') {
-                    // Just log it or show toast if needed, but observer handles UI
-                    console.log('[CRM Extractor] DOM change detected');
-                }
+            case MESSAGE_ACTIONS.PING_CONTENT_SCRIPT:
+                sendResponse({ success: true, payload: { alive: true } });
                 break;
 
             default:
@@ -70,6 +288,42 @@ class ContentScriptOrchestrator {
         }
     }
 
+    private cancelExtraction(keepPartialResults: boolean): boolean {
+        if (!this.extractionController) {
+            return false;
+        }
+
+        // Choosing again before the run winds down just updates what happens to the partial results
+        this.keepPartialResults = keepPartialResults;
+        if (!this.extractionController.signal.aborted) {
+            this.extractionController.abort();
+            extractionIndicator.showStopping();
+        }
+
+        return true;
+    }
+
+    private respondWithSelectorTest(
+        selectors: string[],
+        sendResponse: (response: MessageResponse) => void
+    ): void {
+        const testResults: SelectorTestResult[] = selectors.map(selector => {
+            try {
+                const matchedElements = document.querySelectorAll(selector);
+                return {
+                    selector,
+                    isValid: true,
+                    matchCount: matchedElements.length,
+                    sampleText: matchedElements[0]?.textContent?.replace(/\s+/g, ' ').trim().slice(0, 80) ?? '',
+                };
+            } catch {
+                return { selector, isValid: false, matchCount: 0, sampleText: '' };
+            }
+        });
+
+        sendResponse({ success: true, payload: testResults });
+    }
+
     private respondWithViewType(sendResponse: (response: MessageResponse) => void): void {
         const viewResult = detectCurrentView();
         sendResponse({
@@ -79,7 +333,8 @@ class ContentScriptOrchestrator {
     }
 
     private async executeExtraction(
-        sendResponse: (response: MessageResponse) => void
+        sendResponse: (response: MessageResponse) => void,
+        resumeCheckpoint: ExtractionCheckpoint | null = null
     ): Promise<void> {
         if (this.isExtracting) {
             sendResponse({
@@ -91,13 +346,18 @@ class ContentScriptOrchestrator {
 
         // Pause observer during extraction to avoid loops
         domChangeObserver.stop();
+        liveCaptureController.stop();
         this.isExtracting = true;
+        progressReporter.reportDetecting();
 
+        // The popup may have switched profiles moments ago, before the storage event arrived
+        await selectorProfiles.loadActiveOverrides();
         const viewResult = detectCurrentView();
 
         if (viewResult.detectedView === 'unknown') {
             this.isExtracting = false;
             domChangeObserver.initialize(); // Restart observer
+            progressReporter.reportFinished(false, 0);
             extractionIndicator.showError('Cannot detect page type');
             sendResponse({
                 success: false,
@@ -106,9 +366,27 @@ class ContentScriptOrchestrator {
             return;
         }
 
+        this.extractionController = new AbortController();
+        this.keepPartialResults = true;
+        this.resumeCheckpoint = resumeCheckpoint;
+        // Taken once so the checkpoint saved per page and the one cleared at the end share a key
+        this.checkpointPath = resumeCheckpoint?.urlPath ?? window.location.pathname;
+        this.insertedRecordIds = [];
+        const { signal } = this.extractionController;
+        runRecorder.begin(viewResult, this.accountHost);
+        // Runs resumed from the page never went through the service worker, which routes cancels
+        this.notifyExtractionStarted(viewResult);
+
         try {
-            const extractionResult = await this.performViewSpecificExtraction(viewResult.detectedView);
+            const preferences = await preferencesStore.retrievePreferences();
+            const harvesterOptions: HarvesterOptions = { numberLocale: preferences.numberLocale, signal };
+            this.paginationOptions = { maxPages: preferences.maxPages, signal };
 
+            const extractionResult = await this.performViewSpecificExtraction(viewResult, harvesterOptions);
+
+            progressReporter.reportFinished(true, extractionResult.count);
+            runRecorder.recordWarning(extractionResult.warningMessage);
+            await runRecorder.finish(signal.aborted ? 'cancelled' : 'success');
             sendResponse({
                 success: true,
                 payload: extractionResult
@@ -117,7 +395,25 @@ class ContentScriptOrchestrator {
             this.notifyServiceWorker(extractionResult);
 
         } catch (error) {
+            // A discarded run is what the user asked for, so the popup reports it without an error
+            if (error instanceof ExtractionCancelledError) {
+                progressReporter.reportFinished(true, 0);
+                await runRecorder.finish('cancelled', error.message);
+                extractionIndicator.showCancelled('Collected records were discarded');
+                sendResponse({
+                    success: true,
+                    payload: {
+                        entityType: viewResult.detectedView,
+                        count: 0,
+                        warningMessage: error.message,
+                    },
+                });
+                return;
+            }
+
             const errorMessage = error instanceof Error ? error.message : 'Unknown extraction error';
+            progressReporter.reportFinished(false, 0);
+            await runRecorder.finish('failed', errorMessage);
             extractionIndicator.showError(errorMessage);
             sendResponse({
                 success: false,
@@ -127,120 +423,378 @@ class ContentScriptOrchestrator {
             this.notifyExtractionFailure(errorMessage);
 
         } finally {
+            // A run that got this far ended on its own terms, so there is nothing left to resume
+            await storageOrchestrator.clearExtractionCheckpoint(this.accountHost, this.checkpointPath);
+            this.resumeCheckpoint = null;
             this.isExtracting = false;
+            this.extractionController = null;
             domChangeObserver.initialize(); // Restart observer
+            this.refreshLiveCapture(detectCurrentView());
         }
     }
 
     private async performViewSpecificExtraction(
-        viewType: ViewType
-    ): Promise<{ entityType: string; count: number }> {
-        switch (viewType) {
-            case 'contacts':
-                return this.extractContacts();
+        viewResult: ViewDetectionResult,
+        harvesterOptions: HarvesterOptions
+    ): Promise<ExtractionRunResult> {
+        const subView = viewResult.subView;
+
+        switch (subView) {
+            case 'contact_list':
+                return this.extractContacts(harvesterOptions, 'Contacts');
+
+            case 'segment_list':
+                return this.extractContacts(
+                    harvesterOptions,
+                    viewResult.activeFilter ? `Contacts in ${viewResult.activeFilter}` : 'Segment contacts'
+                );
+
+            case 'contact_detail':
+                return this.extractContactProfile(harvesterOptions);
+
+            case 'pipeline_board':
+            case 'deals_list':
+                return this.extractDeals(harvesterOptions, subView);
+
+            case 'deal_detail':
+                return this.extractDealTimeline(harvesterOptions);
 
-            case 'deals':
-                return this.extractDeals();
+            case 'tasks_list':
+            case 'tasks_calendar':
+                return this.extractTasks(harvesterOptions, subView);
 
-            case 'tasks':
-                return this.extractTasks();
+            case 'accounts_list':
+                return this.extractAccounts(harvesterOptions);
 
             default:
-                throw new Error(`Unsupported view type: ${viewType}`);
+                throw new Error(`Unsupported view type: ${viewResult.detectedView}`);
         }
     }
 
-    private async extractContacts(): Promise<{ entityType: string; count: number }> {
-        extractionIndicator.showExtracting('Contacts');
+    private async extractContacts(
+        harvesterOptions: HarvesterOptions,
+        entityLabel: string
+    ): Promise<ExtractionRunResult> {
+        extractionIndicator.showExtracting(entityLabel);
 
-        const harvester = new ContactDataHarvester();
+        const harvester = new ContactDataHarvester(harvesterOptions);
 
-        // Use pagination handler to extract across pages
-        const contacts: ACContact[] = await paginationHandler.extractAllPages(
+        // Use pagination handler to extract across pages; each page is saved as it completes
+        const contactCount = await this.paginateWithCheckpoints(
+            'contacts',
             () => harvester.harvestRecords(),
-            'contacts'
+            'Failed to save contacts'
         );
 
-        if (contacts.length === 0) {
+        await this.ensureResultsKept(contactCount);
+
+        if (contactCount === 0) {
             throw new Error('No contacts found on this page');
         }
 
-        const saveResult = await storageOrchestrator.insertRecordsWithDeduplication(
-            'contacts',
-            contacts
-        );
+        this.showSavedRecords(entityLabel, contactCount);
+
+        return {
+            entityType: 'contacts',
+            count: contactCount,
+            warningMessage: this.describePaginationWarning('contacts'),
+        };
+    }
+
+    private async extractContactProfile(
+        harvesterOptions: HarvesterOptions
+    ): Promise<ExtractionRunResult> {
+        extractionIndicator.showExtracting('Contact profile');
+
+        const harvester = new ContactDataHarvester(harvesterOptions);
 
-        if (!saveResult.success) {
-            throw new Error(saveResult.errorMessage ?? 'Failed to save contacts');
+        // A profile page holds a single record, so there is nothing to paginate
+        const contacts: ACContact[] = await harvester.harvestContactProfile();
+
+        await this.ensureResultsKept(contacts.length);
+
+        if (contacts.length === 0) {
+            throw new Error('No contact details found on this page');
+        }
+
+        progressReporter.reportSaving(contacts.length);
+
+        await this.saveRecords('contacts', contacts, 'Failed to save contact');
+
+        // The timeline is supplementary on a profile page, so an empty one is not an error
+        const activities = await this.harvestTimeline(harvesterOptions);
+        if (activities.length > 0) {
+            await this.saveRecords('activities', activities, 'Failed to save activity');
         }
 
-        extractionIndicator.showSuccess('Contacts', contacts.length);
+        this.showSavedRecords('Contact profile', contacts.length);
 
         return { entityType: 'contacts', count: contacts.length };
     }
 
-    private async extractDeals(): Promise<{ entityType: string; count: number }> {
-        extractionIndicator.showExtracting('Deals');
+    private async extractDeals(
+        harvesterOptions: HarvesterOptions,
+        subView: 'pipeline_board' | 'deals_list'
+    ): Promise<ExtractionRunResult> {
+        const isBoard = subView === 'pipeline_board';
+        extractionIndicator.showExtracting(isBoard ? 'Pipeline board' : 'Deals');
 
-        const harvester = new DealDataHarvester();
+        const harvester = new DealDataHarvester(harvesterOptions);
 
-        // Use pagination handler
-        const deals: ACDeal[] = await paginationHandler.extractAllPages(
-            () => harvester.harvestRecords(),
-            'deals'
-        );
+        // The board scroll already loads every column, so only the list view is paginated
+        const dealCount = isBoard
+            ? await this.saveCollectedRecords('deals', await harvester.harvestBoardRecords(), 'Failed to save deals')
+            : await this.paginateWithCheckpoints('deals', () => harvester.harvestListRecords(), 'Failed to save deals');
+
+        await this.ensureResultsKept(dealCount);
 
-        if (deals.length === 0) {
+        if (dealCount === 0) {
             throw new Error('No deals found on this page');
         }
 
-        const saveResult = await storageOrchestrator.insertRecordsWithDeduplication(
-            'deals',
-            deals
-        );
+        const boardReport = harvester.lastBoardScrollReport ?? undefined;
+        let boardWarning: string | undefined;
+        if (boardReport && boardReport.columnsFound > 0) {
+            const columnSummary = `${boardReport.columnsFullyLoaded} of ${boardReport.columnsFound} columns fully loaded`;
+            if (boardReport.columnsFullyLoaded < boardReport.columnsFound) {
+                boardWarning = `Pipeline board: ${columnSummary}`;
+                runRecorder.recordWarning(boardWarning);
+            }
+            this.showSavedRecords('Deals', dealCount, columnSummary);
+        } else {
+            this.showSavedRecords('Deals', dealCount);
+        }
+
+        return {
+            entityType: 'deals',
+            count: dealCount,
+            warningMessage: isBoard ? boardWarning : this.describePaginationWarning('deals'),
+            boardScrollReport: boardReport,
+        };
+    }
 
-        if (!saveResult.success) {
-            throw new Error(saveResult.errorMessage ?? 'Failed to save deals');
+    private async extractTasks(
+        harvesterOptions: HarvesterOptions,
+        subView: 'tasks_list' | 'tasks_calendar'
+    ): Promise<ExtractionRunResult> {
+        const isCalendar = subView === 'tasks_calendar';
+        extractionIndicator.showExtracting(isCalendar ? 'Tasks calendar' : 'Tasks');
+
+        const harvester = new TaskDataHarvester(harvesterOptions);
+
+        // The calendar's next control moves to another month, so only the visible one is captured
+        const taskCount = isCalendar
+            ? await this.saveCollectedRecords('tasks', await harvester.harvestRecords(), 'Failed to save tasks')
+            : await this.paginateWithCheckpoints('tasks', () => harvester.harvestRecords(), 'Failed to save tasks');
+
+        await this.ensureResultsKept(taskCount);
+
+        if (taskCount === 0) {
+            throw new Error('No tasks found on this page');
         }
 
-        extractionIndicator.showSuccess('Deals', deals.length);
+        this.showSavedRecords('Tasks', taskCount);
 
-        return { entityType: 'deals', count: deals.length };
+        return {
+            entityType: 'tasks',
+            count: taskCount,
+            warningMessage: isCalendar ? undefined : this.describePaginationWarning('tasks'),
+        };
     }
 
-    private async extractTasks(): Promise<{ entityType: string; count: number }> {
-        extractionIndicator.showExtracting('Tasks');
+    private async extractDealTimeline(
+        harvesterOptions: HarvesterOptions
+    ): Promise<ExtractionRunResult> {
+        extractionIndicator.showExtracting('Deal activity');
 
-        const harvester = new TaskDataHarvester();
+        const activities = await this.harvestTimeline(harvesterOptions);
+
+        await this.ensureResultsKept(activities.length);
+
+        if (activities.length === 0) {
+            throw new Error('No activity found on this deal');
+        }
+
+        progressReporter.reportSaving(activities.length);
+
+        await this.saveRecords('activities', activities, 'Failed to save activity');
+
+        this.showSavedRecords('Deal activity', activities.length);
+
+        return { entityType: 'activities', count: activities.length };
+    }
+
+    private harvestTimeline(harvesterOptions: HarvesterOptions): Promise<ACActivity[]> {
+        // The harvester expands the timeline itself, so there is nothing to paginate
+        const harvester = new ActivityDataHarvester(harvesterOptions);
+        return harvester.harvestRecords();
+    }
 
-        // Use pagination handler
-        const tasks: ACTask[] = await paginationHandler.extractAllPages(
+    private async extractAccounts(
+        harvesterOptions: HarvesterOptions
+    ): Promise<ExtractionRunResult> {
+        extractionIndicator.showExtracting('Accounts');
+
+        const harvester = new AccountDataHarvester(harvesterOptions);
+
+        // Use pagination handler; each page is saved as it completes
+        const accountCount = await this.paginateWithCheckpoints(
+            'accounts',
             () => harvester.harvestRecords(),
-            'tasks'
+            'Failed to save accounts'
         );
 
-        if (tasks.length === 0) {
-            throw new Error('No tasks found on this page');
+        await this.ensureResultsKept(accountCount);
+
+        if (accountCount === 0) {
+            throw new Error('No accounts found on this page');
+        }
+
+        this.showSavedRecords('Accounts', accountCount);
+
+        return {
+            entityType: 'accounts',
+            count: accountCount,
+            warningMessage: this.describePaginationWarning('accounts'),
+        };
+    }
+
+    private async paginateWithCheckpoints<T extends ACContact | ACDeal | ACTask | ACAccount>(
+        entityType: ExtractionCheckpoint['entityType'],
+        extractCurrentPage: () => Promise<T[]>,
+        failureMessage: string
+    ): Promise<number> {
+        const resumeCheckpoint = this.resumeCheckpoint?.entityType === entityType ? this.resumeCheckpoint : null;
+        const startedAt = resumeCheckpoint?.startedAt ?? Date.now();
+        let recordCount = resumeCheckpoint?.recordCount ?? 0;
+
+        // Each page goes straight into the account partition, so a reload or a dismissed
+        // resume offer loses at most the page in flight; the checkpoint only holds the cursor
+        await paginationHandler.extractAllPages<T>(extractCurrentPage, entityType, {
+            ...this.paginationOptions,
+            startPage: resumeCheckpoint ? resumeCheckpoint.completedPages + 1 : 1,
+            resumeFingerprint: resumeCheckpoint?.pageFingerprint,
+            onPageComplete: async ({ pageRecords, pageFingerprint, completedPages, strategy }) => {
+                if (pageRecords.length > 0) {
+                    progressReporter.reportSaving(recordCount + pageRecords.length);
+                    await this.saveRecords(entityType, pageRecords, failureMessage);
+                    recordCount += pageRecords.length;
+                }
+
+                await storageOrchestrator.saveExtractionCheckpoint({
+                    entityType,
+                    accountHost: this.accountHost,
+                    urlPath: this.checkpointPath,
+                    strategy,
+                    completedPages,
+                    pageFingerprint,
+                    recordCount,
+                    startedAt,
+                    updatedAt: Date.now(),
+                });
+            },
+        });
+
+        runRecorder.recordPagination(paginationHandler.lastPaginationReport);
+        return recordCount;
+    }
+
+    private async saveCollectedRecords<T extends ACDeal | ACTask>(
+        entityType: RunTouchedRecord['entityType'],
+        records: T[],
+        failureMessage: string
+    ): Promise<number> {
+        // A discarded or empty capture is resolved by the caller before anything is written
+        if (records.length === 0 || (this.extractionController?.signal.aborted && !this.keepPartialResults)) {
+            return records.length;
         }
 
+        progressReporter.reportSaving(records.length);
+        await this.saveRecords(entityType, records, failureMessage);
+        return records.length;
+    }
+
+    private async saveRecords<T extends ACContact | ACDeal | ACTask | ACAccount | ACActivity>(
+        entityType: RunTouchedRecord['entityType'],
+        records: T[],
+        failureMessage: string
+    ): Promise<void> {
         const saveResult = await storageOrchestrator.insertRecordsWithDeduplication(
-            'tasks',
-            tasks
+            this.accountHost,
+            entityType,
+            records
         );
 
-        if (!saveResult.success) {
-            throw new Error(saveResult.errorMessage ?? 'Failed to save tasks');
+        if (!saveResult.success || !saveResult.payload) {
+            throw new Error(saveResult.errorMessage ?? failureMessage);
         }
 
-        extractionIndicator.showSuccess('Tasks', tasks.length);
+        runRecorder.recordSave(entityType, records.length, saveResult.payload);
+        this.insertedRecordIds.push(...saveResult.payload.insertedIds.map(recordId => ({ entityType, recordId })));
+    }
 
-        return { entityType: 'tasks', count: tasks.length };
+    private async ensureResultsKept(recordCount: number): Promise<void> {
+        if (this.extractionController?.signal.aborted && (!this.keepPartialResults || recordCount === 0)) {
+            await this.discardInsertedRecords();
+            throw new ExtractionCancelledError();
+        }
+    }
+
+    private async discardInsertedRecords(): Promise<void> {
+        // Pages were saved as they completed; records this run only updated keep their new values
+        const entityTypes = new Set(this.insertedRecordIds.map(({ entityType }) => entityType));
+        for (const entityType of entityTypes) {
+            const recordIds = this.insertedRecordIds
+                .filter(inserted => inserted.entityType === entityType)
+                .map(({ recordId }) => recordId);
+            await storageOrchestrator.removeRecords(this.accountHost, entityType, recordIds);
+        }
+        this.insertedRecordIds = [];
+    }
+
+    private showSavedRecords(entityLabel: string, recordCount: number, detailText?: string): void {
+        if (this.extractionController?.signal.aborted) {
+            extractionIndicator.showCancelled(`Saved ${recordCount} records collected before stopping`);
+            return;
+        }
+
+        extractionIndicator.showSuccess(entityLabel, recordCount, detailText);
+    }
+
+    private describePaginationWarning(entityType: string): string | undefined {
+        const paginationReport = paginationHandler.lastPaginationReport;
+
+        // A partial capture should not look like a complete one in the popup
+        switch (paginationReport?.stopReason) {
+            case 'page-limit':
+                return `Stopped at the ${paginationReport.pagesVisited}-page limit with more ${entityType} left. ` +
+                    'Raise the page limit in settings to capture the rest.';
+            case 'cancelled':
+                return `Extraction cancelled after page ${paginationReport.pagesVisited}. ` +
+                    `The ${entityType} collected so far were saved.`;
+            case 'page-repeated':
+                return `Stopped after page ${paginationReport.pagesVisited} because the next page did not load. ` +
+                    `Some ${entityType} may be missing.`;
+            default:
+                return undefined;
+        }
+    }
+
+    private notifyExtractionStarted(viewResult: ViewDetectionResult): void {
+        const message = createMessage<ExtractionStartedMessage>({
+            action: MESSAGE_ACTIONS.EXTRACTION_STARTED,
+            viewType: viewResult.detectedView,
+        });
+
+        chrome.runtime.sendMessage(message).catch(() => {
+            // Service worker may not be listening
+        });
     }
 
-    private notifyServiceWorker(result: { entityType: string; count: number }): void {
+    private notifyServiceWorker(result: ExtractionRunResult): void {
         const message = createMessage<ExtractionCompleteMessage>({
             action: MESSAGE_ACTIONS.EXTRACTION_COMPLETE,
-            entityType: result.entityType as 'contacts' | 'deals' | 'tasks',
+            entityType: result.entityType as 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities',
             extractedCount: result.count,
         });
 
@@ -3,19 +3,61 @@
  * Displays visual feedback during data extraction
  */
 
-type IndicatorState = 'idle' | 'extracting' | 'success' | 'error';
+import { ExtractionProgress } from '@shared/types';
+
+type IndicatorState = 'idle' | 'extracting' | 'success' | 'error' | 'cancelled' | 'resumable' | 'live';
+
+type CancelRequestHandler = (keepPartialResults: boolean) => void;
+
+interface IndicatorActions {
+    primaryLabel: string;
+    secondaryLabel: string;
+    onPrimary: () => void;
+    onSecondary: () => void;
+}
+
+const DEFAULT_SUCCESS_DETAIL = 'Records found';
 
 interface IndicatorMessage {
     state: IndicatorState;
     primaryText: string;
     secondaryText?: string;
     recordCount?: number;
+    progressPercent?: number;
+    actions?: IndicatorActions;
+}
+
+function describeProgress(progress: ExtractionProgress): string {
+    const progressParts = [progress.statusMessage];
+
+    if (progress.currentPhase === 'extracting') {
+        progressParts.push(`${progress.recordCount} records`);
+        if (progress.estimatedSecondsRemaining !== null && progress.estimatedSecondsRemaining > 0) {
+            progressParts.push(`~${formatDuration(progress.estimatedSecondsRemaining)} left`);
+        }
+    }
+
+    return progressParts.join(' · ');
+}
+
+function formatDuration(totalSeconds: number): string {
+    if (totalSeconds < 60) {
+        return `${totalSeconds}s`;
+    }
+    return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`;
 }
 
 class ExtractionStatusIndicator {
     private hostElement: HTMLDivElement | null = null;
     private shadowRoot: ShadowRoot | null = null;
     private autoHideTimer: number | null = null;
+    private cancelRequestHandler: CancelRequestHandler | null = null;
+    private currentActions: IndicatorActions | null = null;
+    private activeExtractionText = 'Extracting data...';
+    private isStopping = false;
+    // Live capture stays on screen, so hiding a transient state falls back to it
+    private liveCaptureStatus: IndicatorMessage | null = null;
+    private currentState: IndicatorState = 'idle';
     private readonly hostId = 'crm-extraction-status-indicator';
 
     initialize(): void {
@@ -114,6 +156,18 @@ class ExtractionStatusIndicator {
         background: #fee2e2;
       }
 
+      .status-icon.cancelled {
+        background: #fef3c7;
+      }
+
+      .status-icon.resumable {
+        background: #eff6ff;
+      }
+
+      .status-icon.live {
+        background: #dcfce7;
+      }
+
       .spinner-ring {
         width: 20px;
         height: 20px;
@@ -136,6 +190,18 @@ class ExtractionStatusIndicator {
         color: #dc2626;
       }
 
+      .icon-svg.cancelled-icon {
+        color: #d97706;
+      }
+
+      .icon-svg.resume-icon {
+        color: #2563eb;
+      }
+
+      .icon-svg.live-icon {
+        color: #16a34a;
+      }
+
       .text-container {
         flex: 1;
         min-width: 0;
@@ -160,6 +226,57 @@ class ExtractionStatusIndicator {
         font-weight: 600;
         color: #2563eb;
       }
+
+      .progress-track {
+        display: none;
+        height: 4px;
+        margin-top: 8px;
+        background: #e2e8f0;
+        border-radius: 2px;
+        overflow: hidden;
+      }
+
+      .progress-track.visible {
+        display: block;
+      }
+
+      .progress-fill {
+        height: 100%;
+        width: 0;
+        background: #2563eb;
+        border-radius: 2px;
+        transition: width 0.3s ease-out;
+      }
+
+      .action-row {
+        display: none;
+        gap: 6px;
+        margin-top: 8px;
+      }
+
+      .action-row.visible {
+        display: flex;
+      }
+
+      .action-button {
+        font: inherit;
+        font-size: 12px;
+        font-weight: 500;
+        padding: 4px 10px;
+        border-radius: 6px;
+        border: 1px solid #e2e8f0;
+        background: #ffffff;
+        color: #0f172a;
+        cursor: pointer;
+      }
+
+      .action-button:hover {
+        background: #f1f5f9;
+      }
+
+      .action-button.secondary {
+        color: #64748b;
+      }
     `;
 
         this.shadowRoot.appendChild(styleElement);
@@ -182,17 +299,45 @@ class ExtractionStatusIndicator {
             <line x1="15" y1="9" x2="9" y2="15"></line>
             <line x1="9" y1="9" x2="15" y2="15"></line>
           </svg>
+          <svg class="icon-svg cancelled-icon" id="cancelled-icon" style="display:none" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5">
+            <rect x="6" y="6" width="12" height="12" rx="1"></rect>
+          </svg>
+          <svg class="icon-svg resume-icon" id="resume-icon" style="display:none" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5">
+            <polygon points="7 4 19 12 7 20 7 4"></polygon>
+          </svg>
+          <svg class="icon-svg live-icon" id="live-icon" style="display:none" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5">
+            <circle cx="12" cy="12" r="3" fill="currentColor"></circle>
+            <path d="M6.3 6.3a8 8 0 0 0 0 11.4M17.7 6.3a8 8 0 0 1 0 11.4"></path>
+          </svg>
         </div>
         <div class="text-container">
           <p class="primary-text" id="primary-text">Extracting data...</p>
           <p class="secondary-text" id="secondary-text"></p>
+          <div class="progress-track" id="progress-track">
+            <div class="progress-fill" id="progress-fill"></div>
+          </div>
+          <div class="action-row" id="action-row">
+            <button class="action-button" id="primary-action"></button>
+            <button class="action-button secondary" id="secondary-action"></button>
+          </div>
         </div>
       </div>
     `;
 
+        wrapper.querySelector('#primary-action')?.addEventListener('click', () => {
+            this.currentActions?.onPrimary();
+        });
+        wrapper.querySelector('#secondary-action')?.addEventListener('click', () => {
+            this.currentActions?.onSecondary();
+        });
+
         this.shadowRoot.appendChild(wrapper);
     }
 
+    onCancelRequested(handler: CancelRequestHandler): void {
+        this.cancelRequestHandler = handler;
+    }
+
     displayStatus(message: IndicatorMessage): void {
         if (!this.shadowRoot) {
             this.initialize();
@@ -208,13 +353,25 @@ class ExtractionStatusIndicator {
         const spinner = this.shadowRoot?.getElementById('spinner');
         const successIcon = this.shadowRoot?.getElementById('success-icon');
         const errorIcon = this.shadowRoot?.getElementById('error-icon');
+        const cancelledIcon = this.shadowRoot?.getElementById('cancelled-icon');
+        const resumeIcon = this.shadowRoot?.getElementById('resume-icon');
+        const liveIcon = this.shadowRoot?.getElementById('live-icon');
         const primaryText = this.shadowRoot?.getElementById('primary-text');
         const secondaryText = this.shadowRoot?.getElementById('secondary-text');
-
-        if (!card || !statusIcon || !spinner || !successIcon || !errorIcon || !primaryText || !secondaryText) {
+        const actionRow = this.shadowRoot?.getElementById('action-row');
+        const primaryAction = this.shadowRoot?.getElementById('primary-action');
+        const secondaryAction = this.shadowRoot?.getElementById('secondary-action');
+        const progressTrack = this.shadowRoot?.getElementById('progress-track');
+        const progressFill = this.shadowRoot?.getElementById('progress-fill');
+
+        if (!card || !statusIcon || !spinner || !successIcon || !errorIcon || !cancelledIcon || !resumeIcon || !liveIcon ||
+            !primaryText || !secondaryText || !actionRow || !primaryAction || !secondaryAction ||
+            !progressTrack || !progressFill) {
             return;
         }
 
+        this.currentState = message.state;
+
         if (message.state === 'idle') {
             card.classList.remove('visible');
             return;
@@ -226,6 +383,17 @@ class ExtractionStatusIndicator {
         spinner.style.display = message.state === 'extracting' ? 'block' : 'none';
         successIcon.style.display = message.state === 'success' ? 'block' : 'none';
         errorIcon.style.display = message.state === 'error' ? 'block' : 'none';
+        cancelledIcon.style.display = message.state === 'cancelled' ? 'block' : 'none';
+        resumeIcon.style.display = message.state === 'resumable' ? 'block' : 'none';
+        liveIcon.style.display = message.state === 'live' ? 'block' : 'none';
+
+        progressTrack.classList.toggle('visible', message.progressPercent !== undefined);
+        progressFill.style.width = `${message.progressPercent ?? 0}%`;
+
+        this.currentActions = message.actions ?? null;
+        actionRow.classList.toggle('visible', this.currentActions !== null);
+        primaryAction.textContent = this.currentActions?.primaryLabel ?? '';
+        secondaryAction.textContent = this.currentActions?.secondaryLabel ?? '';
 
         primaryText.textContent = message.primaryText;
 
@@ -233,6 +401,10 @@ class ExtractionStatusIndicator {
             secondaryText.style.display = 'block';
             if (message.recordCount !== undefined && message.recordCount > 0) {
                 secondaryText.innerHTML = `Found <span class="record-count">${message.recordCount}</span> records`;
+                // Details such as the board column summary sit beside the count instead of being replaced by it
+                if (message.secondaryText !== DEFAULT_SUCCESS_DETAIL) {
+                    secondaryText.append(` · ${message.secondaryText}`);
+                }
             } else {
                 secondaryText.textContent = message.secondaryText;
             }
@@ -240,7 +412,7 @@ class ExtractionStatusIndicator {
             secondaryText.style.display = 'none';
         }
 
-        if (message.state === 'success' || message.state === 'error') {
+        if (message.state === 'success' || message.state === 'error' || message.state === 'cancelled') {
             this.autoHideTimer = window.setTimeout(() => {
                 this.hide();
             }, 3500);
@@ -248,18 +420,21 @@ class ExtractionStatusIndicator {
     }
 
     showExtracting(entityType: string): void {
+        this.activeExtractionText = `Extracting ${entityType}...`;
+        this.isStopping = false;
         this.displayStatus({
             state: 'extracting',
-            primaryText: `Extracting ${entityType}...`,
+            primaryText: this.activeExtractionText,
             secondaryText: 'Scanning page content',
+            actions: this.buildCancelActions(),
         });
     }
 
-    showSuccess(entityType: string, recordCount: number): void {
+    showSuccess(entityType: string, recordCount: number, detailText: string = DEFAULT_SUCCESS_DETAIL): void {
         this.displayStatus({
             state: 'success',
             primaryText: `${entityType} extracted`,
-            secondaryText: 'Records found',
+            secondaryText: detailText,
             recordCount,
         });
     }
@@ -272,7 +447,114 @@ class ExtractionStatusIndicator {
         });
     }
 
+    showCancelled(detailText: string): void {
+        this.displayStatus({
+            state: 'cancelled',
+            primaryText: 'Extraction cancelled',
+            secondaryText: detailText,
+        });
+    }
+
+    showProgress(progress: ExtractionProgress): void {
+        // Finished runs are reported by the success and error states, and a stop notice should stay put
+        const isActivePhase = progress.currentPhase === 'detecting' ||
+            progress.currentPhase === 'extracting' ||
+            progress.currentPhase === 'saving';
+        if (!isActivePhase || this.isStopping) {
+            return;
+        }
+
+        this.displayStatus({
+            state: 'extracting',
+            primaryText: progress.currentPhase === 'detecting' ? 'Extracting data...' : this.activeExtractionText,
+            secondaryText: describeProgress(progress),
+            progressPercent: progress.progressPercent,
+            actions: this.buildCancelActions(),
+        });
+    }
+
+    showStopping(): void {
+        this.isStopping = true;
+        this.displayStatus({
+            state: 'extracting',
+            primaryText: 'Stopping extraction...',
+            secondaryText: 'Finishing the current page',
+            actions: this.buildCancelActions(),
+        });
+    }
+
+    showResumeOffer(entityType: string, nextPage: number, onResume: () => void, onDismiss: () => void): void {
+        this.displayStatus({
+            state: 'resumable',
+            primaryText: `Resume ${entityType} extraction?`,
+            secondaryText: `An earlier run stopped before page ${nextPage}`,
+            actions: {
+                primaryLabel: 'Resume',
+                secondaryLabel: 'Dismiss',
+                onPrimary: onResume,
+                onSecondary: onDismiss,
+            },
+        });
+    }
+
+    showLiveCapture(
+        entityType: string,
+        capturedCount: number,
+        isPaused: boolean,
+        onTogglePause: () => void,
+        onStop: () => void
+    ): void {
+        this.liveCaptureStatus = {
+            state: 'live',
+            primaryText: isPaused ? `Live capture paused · ${entityType}` : `Live capture on · ${entityType}`,
+            secondaryText: capturedCount > 0
+                ? `${capturedCount} new or updated records saved`
+                : 'New rows are saved as they appear',
+            actions: {
+                primaryLabel: isPaused ? 'Resume' : 'Pause',
+                secondaryLabel: 'Turn off',
+                onPrimary: onTogglePause,
+                onSecondary: onStop,
+            },
+        };
+
+        // A run in progress, its result or a resume offer keeps the card until it is done
+        if (this.autoHideTimer === null && (this.currentState === 'idle' || this.currentState === 'live')) {
+            this.displayStatus(this.liveCaptureStatus);
+        }
+    }
+
+    clearLiveCapture(): void {
+        if (!this.liveCaptureStatus) {
+            return;
+        }
+
+        this.liveCaptureStatus = null;
+        if (this.currentState === 'live') {
+            this.hide();
+        }
+    }
+
+    private buildCancelActions(): IndicatorActions | undefined {
+        const cancelRequestHandler = this.cancelRequestHandler;
+        if (!cancelRequestHandler) {
+            return undefined;
+        }
+
+        return {
+            primaryLabel: 'Stop & save',
+            secondaryLabel: 'Discard',
+            onPrimary: () => cancelRequestHandler(true),
+            onSecondary: () => cancelRequestHandler(false),
+        };
+    }
+
     hide(): void {
+        if (this.liveCaptureStatus) {
+            this.displayStatus(this.liveCaptureStatus);
+            return;
+        }
+
         this.displayStatus({
             state: 'idle',
             primaryText: '',
@@ -6,16 +6,35 @@ import { ACTabNavigation } from './components/ACTabNavigation';
 import { ACContactsTab } from './components/ACContactsTab';
 import { ACDealsTab } from './components/ACDealsTab';
 import { ACTasksTab } from './components/ACTasksTab';
+import { ACAccountsTab } from './components/ACAccountsTab';
+import { ACActivitiesTab } from './components/ACActivitiesTab';
+import { ACHistoryTab } from './components/ACHistoryTab';
 import { ACExportMenu } from './components/ACExportMenu';
+import { ACSettingsMenu } from './components/ACSettingsMenu';
 import { ACErrorAlert } from './components/ACErrorAlert';
+import { ACWarningAlert } from './components/ACWarningAlert';
+import { ACExtractionProgress } from './components/ACExtractionProgress';
+import { ACViewSummary } from './components/ACViewSummary';
+import { ACAccountSwitcher } from './components/ACAccountSwitcher';
 import { useStorageManager } from './hooks/useStorageManager';
 import { useExtractionManager } from './hooks/useExtractionManager';
+import { usePreferencesManager } from './hooks/usePreferencesManager';
+import { useViewDetection } from './hooks/useViewDetection';
+import { useAccountPartitions } from './hooks/useAccountPartitions';
+import { useRunHistory } from './hooks/useRunHistory';
 
-type ActiveTabId = 'contacts' | 'deals' | 'tasks';
+type ActiveTabId = 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities' | 'history';
 
 function App(): React.ReactElement {
     const [activeTab, setActiveTab] = useState<ActiveTabId>('contacts');
 
+    const {
+        accountPartitions,
+        selectedAccountHost,
+        activeTabAccountHost,
+        selectAccount,
+    } = useAccountPartitions();
+
     const {
         storageData,
         isLoading,
@@ -23,19 +42,31 @@ function App(): React.ReactElement {
         removeContact,
         removeDeal,
         removeTask,
-    } = useStorageManager();
+        removeAccount,
+        removeActivity,
+    } = useStorageManager(selectedAccountHost);
 
     const {
         isExtracting,
         extractionError,
+        extractionWarning,
+        extractionProgress,
         triggerExtraction,
+        cancelExtraction,
         clearExtractionError,
+        clearExtractionWarning,
     } = useExtractionManager();
 
+    const { preferences, updatePreferences } = usePreferencesManager();
+    const { viewResult } = useViewDetection(isExtracting);
+    const { historyRuns } = useRunHistory(selectedAccountHost);
+
     const totalRecordCount =
         storageData.contacts.length +
         storageData.deals.length +
-        storageData.tasks.length;
+        storageData.tasks.length +
+        storageData.accounts.length +
+        storageData.activities.length;
 
     if (isLoading) {
         return (
@@ -68,6 +99,27 @@ function App(): React.ReactElement {
                         onDeleteTask={removeTask}
                     />
                 );
+            case 'accounts':
+                return (
+                    <ACAccountsTab
+                        accounts={storageData.accounts}
+                        onDeleteAccount={removeAccount}
+                    />
+                );
+            case 'activities':
+                return (
+                    <ACActivitiesTab
+                        activities={storageData.activities}
+                        onDeleteActivity={removeActivity}
+                    />
+                );
+            case 'history':
+                return (
+                    <ACHistoryTab
+                        historyRuns={historyRuns}
+                        storageData={storageData}
+                    />
+                );
         }
     };
 
@@ -79,8 +131,17 @@ function App(): React.ReactElement {
                     totalRecordCount={totalRecordCount}
                     isExtracting={isExtracting}
                     onExtractClick={triggerExtraction}
+                    onCancelClick={cancelExtraction}
                 />
 
+                {isExtracting && extractionProgress && (
+                    <ACExtractionProgress progress={extractionProgress} />
+                )}
+
+                {!isExtracting && viewResult && (
+                    <ACViewSummary viewResult={viewResult} />
+                )}
+
                 {(extractionError || fetchError) && (
                     <ACErrorAlert
                         message={extractionError || fetchError || 'An error occurred'}
@@ -88,12 +149,22 @@ function App(): React.ReactElement {
                     />
                 )}
 
+                {extractionWarning && (
+                    <ACWarningAlert
+                        message={extractionWarning}
+                        onDismiss={clearExtractionWarning}
+                    />
+                )}
+
                 <ACTabNavigation
                     activeTab={activeTab}
                     onTabChange={setActiveTab}
                     contactCount={storageData.contacts.length}
                     dealCount={storageData.deals.length}
                     taskCount={storageData.tasks.length}
+                    accountCount={storageData.accounts.length}
+                    activityCount={storageData.activities.length}
+                    historyCount={historyRuns.length}
                 />
 
                 <div className="flex-1 overflow-hidden">
@@ -102,10 +173,22 @@ function App(): React.ReactElement {
 
                 <footer className="px-3 py-2 border-t border-border-light bg-surface-secondary 
                           flex items-center justify-between">
-                    <span className="text-xs text-text-tertiary">
-                        ActiveCampaign CRM Extractor
-                    </span>
-                    <ACExportMenu storageData={storageData} />
+                    <ACAccountSwitcher
+                        accountPartitions={accountPartitions}
+                        selectedAccountHost={selectedAccountHost}
+                        activeTabAccountHost={activeTabAccountHost}
+                        onAccountChange={selectAccount}
+                    />
+                    <div className="flex items-center gap-2">
+                        <ACSettingsMenu
+                            preferences={preferences}
+                            onPreferencesChange={updatePreferences}
+                        />
+                        <ACExportMenu
+                            storageData={storageData}
+                            accountHost={selectedAccountHost}
+                        />
+                    </div>
                 </footer>
             </div>
         </ACErrorBoundary>
@@ -0,0 +1,66 @@
+import React from 'react';
+import BusinessIcon from '@mui/icons-material/Business';
+import LanguageIcon from '@mui/icons-material/Language';
+import PersonIcon from '@mui/icons-material/Person';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { ACAccount } from '@shared/types';
+import { ACCustomFieldList } from './ACCustomFieldList';
+
+interface ACAccountCardProps {
+    account: ACAccount;
+    onDelete: (id: string, name: string) => void;
+}
+
+export function ACAccountCard({
+    account,
+    onDelete
+}: ACAccountCardProps): React.ReactElement {
+    return (
+        <div className="card-container group">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1.5">
+                        <BusinessIcon sx={{ fontSize: 16, color: '#64748b' }} />
+                        <h3 className="text-sm font-semibold text-text-primary text-truncate">
+                            {account.name || 'Unnamed Account'}
+                        </h3>
+                    </div>
+
+                    {account.url && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <LanguageIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span className="text-truncate">{account.url}</span>
+                        </div>
+                    )}
+
+                    {account.owner && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <PersonIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span>{account.owner}</span>
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                        <span className="badge bg-slate-100 text-slate-700">
+                            {account.contactCount} contacts
+                        </span>
+                        <span className="badge bg-slate-100 text-slate-700">
+                            {account.dealCount} deals
+                        </span>
+                    </div>
+
+                    <ACCustomFieldList customFields={account.customFields} />
+                </div>
+
+                <button
+                    onClick={() => onDelete(account.id, account.name)}
+                    className="p-1.5 rounded-md text-text-tertiary hover:text-status-error
+                     hover:bg-status-errorLight transition-colors opacity-0 group-hover:opacity-100"
+                    title="Delete account"
+                >
+                    <DeleteOutlineIcon sx={{ fontSize: 18 }} />
+                </button>
+            </div>
+        </div>
+    );
+}
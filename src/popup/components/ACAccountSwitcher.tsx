@@ -0,0 +1,44 @@
+import React from 'react';
+import { AccountPartitionSummary } from '@shared/types';
+
+interface ACAccountSwitcherProps {
+    accountPartitions: AccountPartitionSummary[];
+    selectedAccountHost: string | null;
+    activeTabAccountHost: string | null;
+    onAccountChange: (accountHost: string) => void;
+}
+
+function formatAccountLabel(partition: AccountPartitionSummary, activeTabAccountHost: string | null): string {
+    const tabMarker = partition.accountHost === activeTabAccountHost ? ' · this tab' : '';
+    return `${partition.accountHost} (${partition.recordCount})${tabMarker}`;
+}
+
+export function ACAccountSwitcher({
+    accountPartitions,
+    selectedAccountHost,
+    activeTabAccountHost,
+    onAccountChange,
+}: ACAccountSwitcherProps): React.ReactElement {
+    if (accountPartitions.length === 0 || !selectedAccountHost) {
+        return (
+            <span className="text-xs text-text-tertiary">
+                ActiveCampaign CRM Extractor
+            </span>
+        );
+    }
+
+    return (
+        <select
+            value={selectedAccountHost}
+            onChange={(e) => onAccountChange(e.target.value)}
+            className="input-field py-1 text-xs max-w-[220px]"
+            title="ActiveCampaign account"
+        >
+            {accountPartitions.map(partition => (
+                <option key={partition.accountHost} value={partition.accountHost}>
+                    {formatAccountLabel(partition, activeTabAccountHost)}
+                </option>
+            ))}
+        </select>
+    );
+}
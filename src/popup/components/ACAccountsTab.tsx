@@ -0,0 +1,77 @@
+import React from 'react';
+import { ACAccount } from '@shared/types';
+import { useAccountSearchManager } from '../hooks/useSearchManager';
+import { useDeleteConfirmation, ACDeleteConfirmDialog } from './ACDeleteConfirm';
+import { ACSearchBar } from './ACSearchBar';
+import { ACAccountCard } from './ACAccountCard';
+import { ACEmptyState } from './ACEmptyState';
+
+interface ACAccountsTabProps {
+    accounts: ACAccount[];
+    onDeleteAccount: (accountId: string) => Promise<boolean>;
+}
+
+export function ACAccountsTab({
+    accounts,
+    onDeleteAccount,
+}: ACAccountsTabProps): React.ReactElement {
+    const {
+        searchQuery,
+        filteredRecords,
+        totalCount,
+        filteredCount,
+        updateSearchQuery,
+        clearAllFilters,
+    } = useAccountSearchManager(accounts);
+
+    const {
+        isConfirmOpen,
+        targetEntity,
+        requestDelete,
+        confirmDelete,
+        cancelDelete,
+    } = useDeleteConfirmation(onDeleteAccount);
+
+    const isFiltered = searchQuery.trim().length > 0;
+    const hasRecords = filteredRecords.length > 0;
+
+    return (
+        <div className="flex flex-col h-full">
+            <ACSearchBar
+                searchValue={searchQuery}
+                onSearchChange={updateSearchQuery}
+                placeholder="Search accounts by name, URL, owner..."
+                resultCount={filteredCount}
+                totalCount={totalCount}
+            />
+
+            <div className="flex-1 overflow-y-auto">
+                {hasRecords ? (
+                    <div className="p-3 space-y-2">
+                        {filteredRecords.map((account) => (
+                            <ACAccountCard
+                                key={account.id}
+                                account={account}
+                                onDelete={requestDelete}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <ACEmptyState
+                        entityType="accounts"
+                        isFiltered={isFiltered}
+                        onClearFilter={clearAllFilters}
+                    />
+                )}
+            </div>
+
+            {isConfirmOpen && targetEntity && (
+                <ACDeleteConfirmDialog
+                    entityName={targetEntity.name}
+                    onConfirm={confirmDelete}
+                    onCancel={cancelDelete}
+                />
+            )}
+        </div>
+    );
+}
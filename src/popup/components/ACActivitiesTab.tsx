@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { ACActivity, LinkedEntity } from '@shared/types';
+import { useActivitySearchManager } from '../hooks/useSearchManager';
+import { useDeleteConfirmation, ACDeleteConfirmDialog } from './ACDeleteConfirm';
+import { ACSearchBar } from './ACSearchBar';
+import { ACActivityCard } from './ACActivityCard';
+import { ACEmptyState } from './ACEmptyState';
+
+interface ACActivitiesTabProps {
+    activities: ACActivity[];
+    onDeleteActivity: (activityId: string) => Promise<boolean>;
+}
+
+function collectParentRecords(activities: ACActivity[]): LinkedEntity[] {
+    const parentsById = new Map<string, LinkedEntity>();
+    for (const activity of activities) {
+        if (!parentsById.has(activity.parent.id)) {
+            parentsById.set(activity.parent.id, activity.parent);
+        }
+    }
+    return Array.from(parentsById.values())
+        .sort((first, second) => first.name.localeCompare(second.name));
+}
+
+export function ACActivitiesTab({
+    activities,
+    onDeleteActivity,
+}: ACActivitiesTabProps): React.ReactElement {
+    const {
+        searchQuery,
+        activeFilters,
+        filteredRecords,
+        totalCount,
+        filteredCount,
+        updateSearchQuery,
+        updateParentFilter,
+        clearAllFilters,
+    } = useActivitySearchManager(activities);
+
+    const {
+        isConfirmOpen,
+        targetEntity,
+        requestDelete,
+        confirmDelete,
+        cancelDelete,
+    } = useDeleteConfirmation(onDeleteActivity);
+
+    const parentRecords = useMemo(() => collectParentRecords(activities), [activities]);
+
+    const isFiltered = searchQuery.trim().length > 0 || Boolean(activeFilters.parentRecordId);
+    const hasRecords = filteredRecords.length > 0;
+
+    return (
+        <div className="flex flex-col h-full">
+            <ACSearchBar
+                searchValue={searchQuery}
+                onSearchChange={updateSearchQuery}
+                placeholder="Search activity by content, author..."
+                resultCount={filteredCount}
+                totalCount={totalCount}
+            />
+
+            {parentRecords.length > 1 && (
+                <div className="px-3 py-2 border-b border-border-light">
+                    <select
+                        value={activeFilters.parentRecordId ?? ''}
+                        onChange={(e) => updateParentFilter(e.target.value)}
+                        className="input-field py-1.5 text-sm"
+                    >
+                        <option value="">All records</option>
+                        {parentRecords.map(parent => (
+                            <option key={parent.id} value={parent.id}>
+                                {parent.type === 'deal' ? 'Deal' : 'Contact'}: {parent.name || parent.id}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto">
+                {hasRecords ? (
+                    <div className="p-3 space-y-2">
+                        {filteredRecords.map((activity) => (
+                            <ACActivityCard
+                                key={activity.id}
+                                activity={activity}
+                                onDelete={requestDelete}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <ACEmptyState
+                        entityType="activities"
+                        isFiltered={isFiltered}
+                        onClearFilter={clearAllFilters}
+                    />
+                )}
+            </div>
+
+            {isConfirmOpen && targetEntity && (
+                <ACDeleteConfirmDialog
+                    entityName={targetEntity.name}
+                    onConfirm={confirmDelete}
+                    onCancel={cancelDelete}
+                />
+            )}
+        </div>
+    );
+}
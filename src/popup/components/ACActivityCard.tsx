@@ -0,0 +1,118 @@
+import React from 'react';
+import NotesIcon from '@mui/icons-material/Notes';
+import EmailIcon from '@mui/icons-material/Email';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import TaskAltIcon from '@mui/icons-material/TaskAlt';
+import MoreHorizIcon from '@mui/icons-material/MoreHoriz';
+import PersonIcon from '@mui/icons-material/Person';
+import LinkIcon from '@mui/icons-material/Link';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { ACActivity, ActivityType } from '@shared/types';
+
+interface ACActivityCardProps {
+    activity: ACActivity;
+    onDelete: (id: string, name: string) => void;
+}
+
+const activityTypeConfig: Record<ActivityType, {
+    icon: React.ReactNode;
+    colorClass: string;
+    label: string;
+}> = {
+    note: {
+        icon: <NotesIcon sx={{ fontSize: 14 }} />,
+        colorClass: 'bg-amber-100 text-amber-700',
+        label: 'Note',
+    },
+    email: {
+        icon: <EmailIcon sx={{ fontSize: 14 }} />,
+        colorClass: 'bg-purple-100 text-purple-700',
+        label: 'Email',
+    },
+    stage_change: {
+        icon: <SwapHorizIcon sx={{ fontSize: 14 }} />,
+        colorClass: 'bg-cyan-100 text-cyan-700',
+        label: 'Stage Change',
+    },
+    task_completed: {
+        icon: <TaskAltIcon sx={{ fontSize: 14 }} />,
+        colorClass: 'bg-green-100 text-green-700',
+        label: 'Task Completed',
+    },
+    other: {
+        icon: <MoreHorizIcon sx={{ fontSize: 14 }} />,
+        colorClass: 'bg-slate-100 text-slate-700',
+        label: 'Activity',
+    },
+};
+
+function formatTimestamp(timestamp: string): string {
+    const parsedDate = new Date(timestamp);
+
+    // Relative times captured as displayed ("2 days ago") are shown unchanged
+    if (!timestamp || isNaN(parsedDate.getTime())) {
+        return timestamp || 'Unknown time';
+    }
+
+    return parsedDate.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
+
+export function ACActivityCard({
+    activity,
+    onDelete
+}: ACActivityCardProps): React.ReactElement {
+    const typeConfig = activityTypeConfig[activity.type];
+
+    return (
+        <div className="card-container group">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1.5">
+                        <span className={`badge ${typeConfig.colorClass} flex items-center gap-1`}>
+                            {typeConfig.icon}
+                            {typeConfig.label}
+                        </span>
+                        <span className="flex items-center gap-1 text-xs text-text-tertiary">
+                            <ScheduleIcon sx={{ fontSize: 12 }} />
+                            {formatTimestamp(activity.timestamp)}
+                        </span>
+                    </div>
+
+                    <p className="text-sm text-text-primary mb-2 line-clamp-3" title={activity.body}>
+                        {activity.body}
+                    </p>
+
+                    {activity.author && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <PersonIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span>{activity.author}</span>
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-1.5 text-xs text-text-secondary">
+                        <LinkIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                        <span className="capitalize">{activity.parent.type}:</span>
+                        <span className="text-primary-600 text-truncate">
+                            {activity.parent.name || activity.parent.id}
+                        </span>
+                    </div>
+                </div>
+
+                <button
+                    onClick={() => onDelete(activity.id, activity.body.slice(0, 40))}
+                    className="p-1.5 rounded-md text-text-tertiary hover:text-status-error
+                     hover:bg-status-errorLight transition-colors opacity-0 group-hover:opacity-100"
+                    title="Delete activity"
+                >
+                    <DeleteOutlineIcon sx={{ fontSize: 18 }} />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -2,9 +2,11 @@ import React from 'react';
 import EmailIcon from '@mui/icons-material/Email';
 import PhoneIcon from '@mui/icons-material/Phone';
 import PersonIcon from '@mui/icons-material/Person';
+import BusinessIcon from '@mui/icons-material/Business';
 import LocalOfferIcon from '@mui/icons-material/LocalOffer';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import { ACContact } from '@shared/types';
+import { ACCustomFieldList } from './ACCustomFieldList';
 
 interface ACContactCardProps {
     contact: ACContact;
@@ -39,6 +41,13 @@ export function ACContactCard({
                         </div>
                     )}
 
+                    {contact.company && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <BusinessIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span className="text-truncate">{contact.company}</span>
+                        </div>
+                    )}
+
                     {contact.owner && (
                         <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-2">
                             <PersonIcon sx={{ fontSize: 14, color: '#64748b' }} />
@@ -61,6 +70,8 @@ export function ACContactCard({
                             )}
                         </div>
                     )}
+
+                    <ACCustomFieldList customFields={contact.customFields} />
                 </div>
 
                 <button
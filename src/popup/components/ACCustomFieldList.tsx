@@ -0,0 +1,36 @@
+import React from 'react';
+import TuneIcon from '@mui/icons-material/Tune';
+import { CustomFieldMap } from '@shared/types';
+
+interface ACCustomFieldListProps {
+    customFields?: CustomFieldMap;
+    maxVisible?: number;
+}
+
+export function ACCustomFieldList({
+    customFields,
+    maxVisible = 3,
+}: ACCustomFieldListProps): React.ReactElement | null {
+    const fieldEntries = Object.entries(customFields ?? {});
+
+    if (fieldEntries.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mt-2 space-y-0.5">
+            {fieldEntries.slice(0, maxVisible).map(([label, value]) => (
+                <div key={label} className="flex items-center gap-1.5 text-xs text-text-secondary">
+                    <TuneIcon sx={{ fontSize: 12, color: '#94a3b8' }} />
+                    <span className="text-text-tertiary">{label}:</span>
+                    <span className="text-truncate">{value}</span>
+                </div>
+            ))}
+            {fieldEntries.length > maxVisible && (
+                <span className="text-xs text-text-tertiary">
+                    +{fieldEntries.length - maxVisible} more fields
+                </span>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,14 @@
 import React from 'react';
 import SyncIcon from '@mui/icons-material/Sync';
 import StorageIcon from '@mui/icons-material/Storage';
+import StopCircleIcon from '@mui/icons-material/StopCircle';
 
 interface ACDashboardHeaderProps {
     lastSyncTimestamp: number;
     totalRecordCount: number;
     isExtracting: boolean;
     onExtractClick: () => void;
+    onCancelClick: (keepPartialResults: boolean) => void;
 }
 
 function formatTimestampDisplay(timestamp: number): string {
@@ -42,6 +44,7 @@ export function ACDashboardHeader({
     totalRecordCount,
     isExtracting,
     onExtractClick,
+    onCancelClick,
 }: ACDashboardHeaderProps): React.ReactElement {
     return (
         <header className="bg-surface-primary border-b border-border-light px-4 py-3">
@@ -73,6 +76,32 @@ export function ACDashboardHeader({
                 </button>
             </div>
 
+            {isExtracting && (
+                <div className="flex items-center justify-between gap-2 mb-3 p-2 rounded-lg
+                          bg-surface-secondary border border-border-light animate-fade-in">
+                    <span className="flex items-center gap-1.5 text-xs text-text-secondary">
+                        <StopCircleIcon sx={{ fontSize: 16, color: '#64748b' }} />
+                        Cancel extraction
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => onCancelClick(true)}
+                            className="btn-secondary text-xs py-1 px-2"
+                            title="Stop and save the records collected so far"
+                        >
+                            Stop &amp; save
+                        </button>
+                        <button
+                            onClick={() => onCancelClick(false)}
+                            className="btn-secondary text-xs py-1 px-2 text-status-error"
+                            title="Stop and discard the records collected so far"
+                        >
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+
             <div className="flex items-center justify-between text-xs">
                 <span className="text-text-secondary">
                     Last sync: <span className="font-medium text-text-primary">
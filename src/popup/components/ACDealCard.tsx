@@ -1,10 +1,13 @@
 import React from 'react';
-import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
+import PaymentsIcon from '@mui/icons-material/Payments';
 import PersonIcon from '@mui/icons-material/Person';
 import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import BusinessIcon from '@mui/icons-material/Business';
+import EventIcon from '@mui/icons-material/Event';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
-import { ACDeal } from '@shared/types';
+import { ACDeal, DealStatus } from '@shared/types';
 import { CURRENCY_SYMBOLS } from '@shared/constants';
+import { ACCustomFieldList } from './ACCustomFieldList';
 
 interface ACDealCardProps {
     deal: ACDeal;
@@ -12,7 +15,8 @@ interface ACDealCardProps {
 }
 
 function formatDealValue(value: number, currency: string): string {
-    const symbol = CURRENCY_SYMBOLS[currency] || '$';
+    // Codes without a known symbol are shown as a prefix, e.g. "JPY 1.2K"
+    const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
 
     if (value >= 1000000) {
         return `${symbol}${(value / 1000000).toFixed(1)}M`;
@@ -34,6 +38,25 @@ const stageColorMap: Record<string, string> = {
     'lost': 'bg-red-100 text-red-700',
 };
 
+const statusColorMap: Record<DealStatus, string> = {
+    open: 'bg-blue-100 text-blue-700',
+    won: 'bg-green-100 text-green-700',
+    lost: 'bg-red-100 text-red-700',
+};
+
+function formatCloseDate(closeDate: string): string {
+    const parsedDate = new Date(closeDate);
+    if (isNaN(parsedDate.getTime())) {
+        return closeDate;
+    }
+
+    return parsedDate.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+    });
+}
+
 function getStageColorClass(stage: string): string {
     const stageLower = stage.toLowerCase();
 
@@ -63,13 +86,26 @@ export function ACDealCard({
                     </div>
 
                     <div className="flex items-center gap-2 mb-2">
-                        <span className="flex items-center gap-1 text-sm font-semibold text-primary-600">
-                            <AttachMoneyIcon sx={{ fontSize: 16 }} />
+                        <span
+                            className="flex items-center gap-1 text-sm font-semibold text-primary-600"
+                            title={`${deal.value.toLocaleString()} ${deal.currency}`}
+                        >
+                            <PaymentsIcon sx={{ fontSize: 16 }} />
                             {formatDealValue(deal.value, deal.currency)}
                         </span>
                         <span className={`badge ${stageColor}`}>
                             {deal.stage}
                         </span>
+                        {deal.status && deal.status !== 'open' && (
+                            <span className={`badge ${statusColorMap[deal.status]} capitalize`}>
+                                {deal.status}
+                            </span>
+                        )}
+                        {deal.probability !== undefined && (
+                            <span className="text-xs text-text-tertiary" title="Win probability">
+                                {deal.probability}%
+                            </span>
+                        )}
                     </div>
 
                     <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
@@ -84,11 +120,27 @@ export function ACDealCard({
                         </div>
                     )}
 
+                    {deal.closeDate && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <EventIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span>Closes {formatCloseDate(deal.closeDate)}</span>
+                        </div>
+                    )}
+
+                    {deal.account && (
+                        <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
+                            <BusinessIcon sx={{ fontSize: 14, color: '#64748b' }} />
+                            <span>{deal.account}</span>
+                        </div>
+                    )}
+
                     {deal.owner && (
                         <div className="text-xs text-text-tertiary">
                             Owner: {deal.owner}
                         </div>
                     )}
+
+                    <ACCustomFieldList customFields={deal.customFields} />
                 </div>
 
                 <button
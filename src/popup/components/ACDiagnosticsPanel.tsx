@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { ExtractionRunEntry, FieldDiagnostics } from '@shared/types';
+import { DIAGNOSTICS_CONFIG, SUB_VIEW_LABELS } from '@shared/constants';
+
+interface ACDiagnosticsPanelProps {
+    historyRuns: ExtractionRunEntry[];
+}
+
+interface FieldHealth {
+    diagnostics: FieldDiagnostics;
+    fillRate: number;
+    baselineFillRate: number | null;
+    hasDropped: boolean;
+    topSelector: string | null;
+}
+
+function computeFillRate(diagnostics: FieldDiagnostics): number {
+    return diagnostics.lookupCount > 0 ? diagnostics.filledCount / diagnostics.lookupCount : 0;
+}
+
+function findTopSelector(diagnostics: FieldDiagnostics): string | null {
+    const selectorEntries = Object.entries(diagnostics.selectorHits)
+        .sort(([, firstHits], [, secondHits]) => secondHits - firstHits);
+    return selectorEntries[0]?.[0] ?? null;
+}
+
+function assessFieldHealth(latestRun: ExtractionRunEntry, earlierRuns: ExtractionRunEntry[]): FieldHealth[] {
+    // Only runs of the same view are comparable, since each view reads a different set of fields
+    const baselineRuns = earlierRuns
+        .filter(runEntry => runEntry.subView === latestRun.subView && (runEntry.fieldDiagnostics ?? []).length > 0)
+        .slice(0, DIAGNOSTICS_CONFIG.BASELINE_RUN_COUNT);
+
+    return latestRun.fieldDiagnostics.map(diagnostics => {
+        const fillRate = computeFillRate(diagnostics);
+        const baselineRates = baselineRuns
+            .map(runEntry => runEntry.fieldDiagnostics.find(earlier => earlier.chainPath === diagnostics.chainPath))
+            .filter((earlier): earlier is FieldDiagnostics =>
+                earlier !== undefined && earlier.lookupCount >= DIAGNOSTICS_CONFIG.MIN_LOOKUPS_FOR_WARNING
+            )
+            .map(computeFillRate);
+        const baselineFillRate = baselineRates.length > 0
+            ? baselineRates.reduce((total, rate) => total + rate, 0) / baselineRates.length
+            : null;
+
+        return {
+            diagnostics,
+            fillRate,
+            baselineFillRate,
+            hasDropped: baselineFillRate !== null &&
+                diagnostics.lookupCount >= DIAGNOSTICS_CONFIG.MIN_LOOKUPS_FOR_WARNING &&
+                baselineFillRate - fillRate >= DIAGNOSTICS_CONFIG.FILL_RATE_DROP_THRESHOLD,
+            topSelector: findTopSelector(diagnostics),
+        };
+    });
+}
+
+function formatPercent(rate: number): string {
+    return `${Math.round(rate * 100)}%`;
+}
+
+export function ACDiagnosticsPanel({
+    historyRuns,
+}: ACDiagnosticsPanelProps): React.ReactElement | null {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    // Runs saved before diagnostics existed have no field data
+    const latestRunIndex = historyRuns.findIndex(runEntry => (runEntry.fieldDiagnostics ?? []).length > 0);
+    const latestRun = latestRunIndex >= 0 ? historyRuns[latestRunIndex] : null;
+
+    const fieldHealth = useMemo(
+        () => latestRun ? assessFieldHealth(latestRun, historyRuns.slice(latestRunIndex + 1)) : [],
+        [latestRun, latestRunIndex, historyRuns]
+    );
+
+    if (!latestRun) {
+        return null;
+    }
+
+    const droppedFields = fieldHealth.filter(health => health.hasDropped);
+
+    return (
+        <div className="border-b border-border-light bg-surface-secondary">
+            <button
+                onClick={() => setIsExpanded(expanded => !expanded)}
+                className="w-full px-3 py-2 flex items-center gap-2 text-left"
+            >
+                <FactCheckIcon sx={{ fontSize: 16, color: '#64748b' }} />
+                <span className="flex-1 text-xs text-text-primary">
+                    Selector diagnostics · {SUB_VIEW_LABELS[latestRun.subView] ?? 'Unknown view'}
+                </span>
+                {droppedFields.length > 0 && (
+                    <span className="badge bg-amber-100 text-amber-700">
+                        {droppedFields.length} {droppedFields.length === 1 ? 'field' : 'fields'} dropped
+                    </span>
+                )}
+                {isExpanded
+                    ? <ExpandLessIcon sx={{ fontSize: 18, color: '#64748b' }} />
+                    : <ExpandMoreIcon sx={{ fontSize: 18, color: '#64748b' }} />
+                }
+            </button>
+
+            {droppedFields.length > 0 && (
+                <div className="mx-3 mb-2 flex items-start gap-1.5 text-xs text-amber-700">
+                    <WarningAmberIcon sx={{ fontSize: 14 }} />
+                    {/* A sharp fall usually means ActiveCampaign changed its markup, not that the data is missing */}
+                    <span>
+                        Fill rate fell sharply for {droppedFields.map(health => health.diagnostics.chainPath).join(', ')}.
+                        The selectors may need updating.
+                    </span>
+                </div>
+            )}
+
+            {isExpanded && (
+                <div className="px-3 pb-2 max-h-48 overflow-y-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-text-tertiary text-left">
+                                <th className="font-medium py-1">Field</th>
+                                <th className="font-medium py-1 text-right">Filled</th>
+                                <th className="font-medium py-1 text-right">Before</th>
+                                <th className="font-medium py-1 text-right">Fallbacks</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {fieldHealth.map(health => (
+                                <tr
+                                    key={health.diagnostics.chainPath}
+                                    className={health.hasDropped ? 'text-amber-700' : 'text-text-primary'}
+                                    title={health.topSelector ? `Matched mostly by ${health.topSelector}` : 'No selector matched'}
+                                >
+                                    <td className="py-0.5 text-truncate">{health.diagnostics.chainPath}</td>
+                                    <td className="py-0.5 text-right">{formatPercent(health.fillRate)}</td>
+                                    <td className="py-0.5 text-right">
+                                        {health.baselineFillRate === null ? '–' : formatPercent(health.baselineFillRate)}
+                                    </td>
+                                    <td className="py-0.5 text-right">{health.diagnostics.fallbackCount}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
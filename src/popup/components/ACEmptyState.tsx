@@ -2,7 +2,7 @@ import React from 'react';
 import InboxIcon from '@mui/icons-material/Inbox';
 
 interface ACEmptyStateProps {
-    entityType: 'contacts' | 'deals' | 'tasks';
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities' | 'history';
     isFiltered: boolean;
     onClearFilter?: () => void;
 }
@@ -23,6 +23,21 @@ const entityMessages = {
         filtered: 'No tasks match your search',
         hint: 'Navigate to Tasks in ActiveCampaign and click Extract Now',
     },
+    accounts: {
+        empty: 'No accounts extracted yet',
+        filtered: 'No accounts match your search',
+        hint: 'Navigate to Accounts in ActiveCampaign and click Extract Now',
+    },
+    activities: {
+        empty: 'No activity extracted yet',
+        filtered: 'No activity matches your search',
+        hint: 'Open a contact or deal in ActiveCampaign and click Extract Now',
+    },
+    history: {
+        empty: 'No extraction runs yet',
+        filtered: 'No runs match your search',
+        hint: 'Each extraction from this account is logged here with what it added and changed',
+    },
 };
 
 export function ACEmptyState({
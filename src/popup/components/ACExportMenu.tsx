@@ -2,58 +2,131 @@ import React, { useState } from 'react';
 import FileDownloadIcon from '@mui/icons-material/FileDownload';
 import DescriptionIcon from '@mui/icons-material/Description';
 import DataObjectIcon from '@mui/icons-material/DataObject';
-import { ACStorageSchema, ACContact, ACDeal, ACTask } from '@shared/types';
+import { ACStorageSchema, ACContact, ACDeal, ACTask, ACAccount, ACActivity, CustomFieldMap } from '@shared/types';
 
 interface ACExportMenuProps {
     storageData: ACStorageSchema;
+    accountHost: string | null;
 }
 
 type ExportFormat = 'csv' | 'json';
 
+function collectCustomFieldKeys(records: Array<{ customFields?: CustomFieldMap }>): string[] {
+    const fieldKeys = new Set<string>();
+    for (const record of records) {
+        Object.keys(record.customFields ?? {}).forEach(key => fieldKeys.add(key));
+    }
+    return Array.from(fieldKeys);
+}
+
+function customFieldCells(customFields: CustomFieldMap | undefined, fieldKeys: string[]): string[] {
+    return fieldKeys.map(key => escapeCsvField(customFields?.[key] ?? ''));
+}
+
 function generateContactsCsv(contacts: ACContact[]): string {
-    const headers = ['Name', 'Email', 'Phone', 'Tags', 'Owner', 'Extracted At'];
+    const customFieldKeys = collectCustomFieldKeys(contacts);
+    const headers = [
+        'Name', 'Email', 'Phone', 'Tags', 'Owner', 'Account', 'Extracted At',
+        ...customFieldKeys.map(escapeCsvField),
+    ];
     const rows = contacts.map(contact => [
         escapeCsvField(contact.name),
         escapeCsvField(contact.email),
         escapeCsvField(contact.phone),
         escapeCsvField(contact.tags.join('; ')),
         escapeCsvField(contact.owner),
+        escapeCsvField(contact.company ?? ''),
         new Date(contact.extractedAt).toISOString(),
+        ...customFieldCells(contact.customFields, customFieldKeys),
     ]);
 
     return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
 }
 
 function generateDealsCsv(deals: ACDeal[]): string {
-    const headers = ['Title', 'Value', 'Currency', 'Pipeline', 'Stage', 'Contact', 'Owner', 'Extracted At'];
+    const customFieldKeys = collectCustomFieldKeys(deals);
+    const headers = [
+        'Title', 'Value', 'Currency', 'Pipeline', 'Stage', 'Status', 'Probability', 'Close Date',
+        'Created Date', 'Contact', 'Owner', 'Account', 'Extracted At',
+        ...customFieldKeys.map(escapeCsvField),
+    ];
     const rows = deals.map(deal => [
         escapeCsvField(deal.title),
         deal.value.toString(),
         deal.currency,
         escapeCsvField(deal.pipeline),
         escapeCsvField(deal.stage),
+        deal.status ?? '',
+        deal.probability?.toString() ?? '',
+        escapeCsvField(deal.closeDate ?? ''),
+        escapeCsvField(deal.createdDate ?? ''),
         escapeCsvField(deal.primaryContact),
         escapeCsvField(deal.owner),
+        escapeCsvField(deal.account ?? ''),
         new Date(deal.extractedAt).toISOString(),
+        ...customFieldCells(deal.customFields, customFieldKeys),
     ]);
 
     return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
 }
 
 function generateTasksCsv(tasks: ACTask[]): string {
-    const headers = ['Type', 'Title', 'Due Date', 'Assignee', 'Linked To', 'Extracted At'];
+    const headers = [
+        'Type', 'Title', 'Status', 'Due Date', 'Due Time', 'Completed At', 'Priority',
+        'Duration (min)', 'Assignee', 'Linked To', 'Description', 'Extracted At',
+    ];
     const rows = tasks.map(task => [
         task.type,
         escapeCsvField(task.title),
+        task.status ?? 'open',
         task.dueDate,
+        task.dueTime ?? '',
+        escapeCsvField(task.completedAt ?? ''),
+        task.priority ?? '',
+        task.duration?.toString() ?? '',
         escapeCsvField(task.assignee),
         task.linkedEntity ? `${task.linkedEntity.type}: ${task.linkedEntity.name}` : '',
+        escapeCsvField(task.description ?? ''),
         new Date(task.extractedAt).toISOString(),
     ]);
 
     return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
 }
 
+function generateAccountsCsv(accounts: ACAccount[]): string {
+    const customFieldKeys = collectCustomFieldKeys(accounts);
+    const headers = [
+        'Name', 'URL', 'Owner', 'Contacts', 'Deals', 'Extracted At',
+        ...customFieldKeys.map(escapeCsvField),
+    ];
+    const rows = accounts.map(account => [
+        escapeCsvField(account.name),
+        escapeCsvField(account.url),
+        escapeCsvField(account.owner),
+        account.contactCount.toString(),
+        account.dealCount.toString(),
+        new Date(account.extractedAt).toISOString(),
+        ...customFieldCells(account.customFields, customFieldKeys),
+    ]);
+
+    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+function generateActivitiesCsv(activities: ACActivity[]): string {
+    const headers = ['Type', 'Body', 'Author', 'Timestamp', 'Parent', 'Parent ID', 'Extracted At'];
+    const rows = activities.map(activity => [
+        activity.type,
+        escapeCsvField(activity.body),
+        escapeCsvField(activity.author),
+        escapeCsvField(activity.timestamp),
+        escapeCsvField(`${activity.parent.type}: ${activity.parent.name}`),
+        activity.parent.id,
+        new Date(activity.extractedAt).toISOString(),
+    ]);
+
+    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
 function escapeCsvField(value: string): string {
     if (value.includes(',') || value.includes('"') || value.includes('\n')) {
         return `"${value.replace(/"/g, '""')}"`;
@@ -77,28 +150,41 @@ function getCurrentDateString(): string {
     return new Date().toISOString().split('T')[0];
 }
 
+function buildAccountSlug(accountHost: string): string {
+    // "clienta.activehosted.com" becomes "clienta" so files from different accounts sort apart
+    return accountHost.split('.')[0].replace(/[^a-z0-9-]/gi, '-');
+}
+
 export function ACExportMenu({
     storageData,
+    accountHost,
 }: ACExportMenuProps): React.ReactElement {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
 
-    const hasData =
+    const hasData = accountHost !== null && (
         storageData.contacts.length > 0 ||
         storageData.deals.length > 0 ||
-        storageData.tasks.length > 0;
+        storageData.tasks.length > 0 ||
+        storageData.accounts.length > 0 ||
+        storageData.activities.length > 0);
 
     const handleExport = async (format: ExportFormat): Promise<void> => {
+        if (!accountHost) return;
+
         setIsExporting(true);
-        const dateStr = getCurrentDateString();
+        const dateStr = `${buildAccountSlug(accountHost)}-${getCurrentDateString()}`;
 
         try {
             if (format === 'json') {
                 const exportData = {
                     exportedAt: new Date().toISOString(),
+                    accountHost,
                     contacts: storageData.contacts,
                     deals: storageData.deals,
                     tasks: storageData.tasks,
+                    accounts: storageData.accounts,
+                    activities: storageData.activities,
                 };
                 downloadFile(
                     JSON.stringify(exportData, null, 2),
@@ -127,6 +213,20 @@ export function ACExportMenu({
                         'text/csv'
                     );
                 }
+                if (storageData.accounts.length > 0) {
+                    downloadFile(
+                        generateAccountsCsv(storageData.accounts),
+                        `accounts-${dateStr}.csv`,
+                        'text/csv'
+                    );
+                }
+                if (storageData.activities.length > 0) {
+                    downloadFile(
+                        generateActivitiesCsv(storageData.activities),
+                        `activities-${dateStr}.csv`,
+                        'text/csv'
+                    );
+                }
             }
         } finally {
             setIsExporting(false);
@@ -0,0 +1,44 @@
+import React from 'react';
+import LinearProgress from '@mui/material/LinearProgress';
+import { ExtractionProgress } from '@shared/types';
+
+interface ACExtractionProgressProps {
+    progress: ExtractionProgress;
+}
+
+function formatTimeRemaining(totalSeconds: number): string {
+    if (totalSeconds < 60) {
+        return `~${totalSeconds}s left`;
+    }
+    return `~${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s left`;
+}
+
+export function ACExtractionProgress({
+    progress,
+}: ACExtractionProgressProps): React.ReactElement {
+    const hasTimeEstimate = progress.estimatedSecondsRemaining !== null && progress.estimatedSecondsRemaining > 0;
+
+    return (
+        <div className="px-4 py-2 border-b border-border-light bg-surface-secondary animate-fade-in">
+            <div className="flex items-center justify-between text-xs mb-1.5">
+                <span className="text-text-primary font-medium text-truncate">
+                    {progress.statusMessage}
+                </span>
+                <span className="text-text-secondary flex-shrink-0 ml-2">
+                    {progress.recordCount} records
+                    {hasTimeEstimate && ` · ${formatTimeRemaining(progress.estimatedSecondsRemaining ?? 0)}`}
+                </span>
+            </div>
+            <LinearProgress
+                variant="determinate"
+                value={progress.progressPercent}
+                sx={{
+                    height: 4,
+                    borderRadius: 2,
+                    backgroundColor: '#e2e8f0',
+                    '& .MuiLinearProgress-bar': { backgroundColor: '#2563eb' },
+                }}
+            />
+        </div>
+    );
+}
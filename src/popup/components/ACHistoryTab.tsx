@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import { ACStorageSchema, ExtractionRunEntry, RunTouchedRecord } from '@shared/types';
+import { SUB_VIEW_LABELS } from '@shared/constants';
+import { ACEmptyState } from './ACEmptyState';
+import { ACDiagnosticsPanel } from './ACDiagnosticsPanel';
+
+interface ACHistoryTabProps {
+    historyRuns: ExtractionRunEntry[];
+    storageData: ACStorageSchema;
+}
+
+const outcomeConfig: Record<ExtractionRunEntry['outcome'], { colorClass: string; label: string }> = {
+    success: { colorClass: 'bg-green-100 text-green-700', label: 'Completed' },
+    cancelled: { colorClass: 'bg-amber-100 text-amber-700', label: 'Cancelled' },
+    failed: { colorClass: 'bg-red-100 text-red-700', label: 'Failed' },
+};
+
+function formatRunTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
+
+function formatRunDuration(runEntry: ExtractionRunEntry): string {
+    const elapsedSeconds = Math.max(0, Math.round((runEntry.finishedAt - runEntry.startedAt) / 1000));
+    if (elapsedSeconds < 60) {
+        return `${elapsedSeconds}s`;
+    }
+    return `${Math.floor(elapsedSeconds / 60)}m ${elapsedSeconds % 60}s`;
+}
+
+function buildRecordNameLookup(storageData: ACStorageSchema): Map<string, string> {
+    const namesById = new Map<string, string>();
+    for (const contact of storageData.contacts) namesById.set(contact.id, contact.name);
+    for (const deal of storageData.deals) namesById.set(deal.id, deal.title);
+    for (const task of storageData.tasks) namesById.set(task.id, task.title);
+    for (const account of storageData.accounts) namesById.set(account.id, account.name);
+    for (const activity of storageData.activities) namesById.set(activity.id, activity.body.slice(0, 60));
+    return namesById;
+}
+
+function ACRunTouchedRecords({
+    touchedRecords,
+    namesById,
+}: {
+    touchedRecords: RunTouchedRecord[];
+    namesById: Map<string, string>;
+}): React.ReactElement {
+    if (touchedRecords.length === 0) {
+        return <p className="text-xs text-text-tertiary">No records were added or changed.</p>;
+    }
+
+    return (
+        <ul className="space-y-1">
+            {touchedRecords.map(touchedRecord => (
+                <li key={`${touchedRecord.entityType}-${touchedRecord.recordId}`} className="flex items-center gap-2 text-xs">
+                    <span className={`badge ${touchedRecord.change === 'inserted'
+                        ? 'bg-green-100 text-green-700'
+                        : 'bg-blue-100 text-blue-700'}`}
+                    >
+                        {touchedRecord.change === 'inserted' ? 'New' : 'Updated'}
+                    </span>
+                    {/* Records deleted since the run are listed by id */}
+                    <span className="text-text-primary text-truncate">
+                        {namesById.get(touchedRecord.recordId) || touchedRecord.recordId}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+function ACRunCard({
+    runEntry,
+    namesById,
+}: {
+    runEntry: ExtractionRunEntry;
+    namesById: Map<string, string>;
+}): React.ReactElement {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const outcome = outcomeConfig[runEntry.outcome];
+
+    return (
+        <div className="card-container">
+            <button
+                onClick={() => setIsExpanded(expanded => !expanded)}
+                className="w-full flex items-start justify-between gap-2 text-left"
+            >
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                        <span className={`badge ${outcome.colorClass}`}>{outcome.label}</span>
+                        <span className="text-sm font-medium text-text-primary text-truncate">
+                            {SUB_VIEW_LABELS[runEntry.subView] ?? 'Unknown view'}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-text-tertiary mb-1.5">
+                        <ScheduleIcon sx={{ fontSize: 12 }} />
+                        <span>{formatRunTime(runEntry.startedAt)} · {formatRunDuration(runEntry)}</span>
+                        {runEntry.pagesVisited !== null && (
+                            <span>· {runEntry.pagesVisited} {runEntry.pagesVisited === 1 ? 'page' : 'pages'}</span>
+                        )}
+                    </div>
+                    <p className="text-xs text-text-secondary">
+                        {runEntry.recordsFound} found · {runEntry.insertedCount} new ·{' '}
+                        {runEntry.updatedCount} updated · {runEntry.unchangedCount} unchanged
+                    </p>
+                </div>
+                {isExpanded
+                    ? <ExpandLessIcon sx={{ fontSize: 18, color: '#64748b' }} />
+                    : <ExpandMoreIcon sx={{ fontSize: 18, color: '#64748b' }} />
+                }
+            </button>
+
+            {isExpanded && (
+                <div className="mt-2 pt-2 border-t border-border-light space-y-2">
+                    <p className="text-xs text-text-tertiary text-truncate" title={runEntry.sourceUrl}>
+                        {runEntry.sourceUrl}
+                    </p>
+
+                    {runEntry.errorMessage && (
+                        <div className="flex items-start gap-1.5 text-xs text-status-error">
+                            <ErrorOutlineIcon sx={{ fontSize: 14 }} />
+                            <span>{runEntry.errorMessage}</span>
+                        </div>
+                    )}
+
+                    {runEntry.warnings.map(warningMessage => (
+                        <div key={warningMessage} className="flex items-start gap-1.5 text-xs text-amber-700">
+                            <WarningAmberIcon sx={{ fontSize: 14 }} />
+                            <span>{warningMessage}</span>
+                        </div>
+                    ))}
+
+                    <ACRunTouchedRecords touchedRecords={runEntry.touchedRecords} namesById={namesById} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function ACHistoryTab({
+    historyRuns,
+    storageData,
+}: ACHistoryTabProps): React.ReactElement {
+    const namesById = useMemo(() => buildRecordNameLookup(storageData), [storageData]);
+
+    return (
+        <div className="flex flex-col h-full">
+            <ACDiagnosticsPanel historyRuns={historyRuns} />
+
+            <div className="flex-1 overflow-y-auto">
+                {historyRuns.length > 0 ? (
+                    <div className="p-3 space-y-2">
+                        {historyRuns.map(runEntry => (
+                            <ACRunCard key={runEntry.runId} runEntry={runEntry} namesById={namesById} />
+                        ))}
+                    </div>
+                ) : (
+                    <ACEmptyState entityType="history" isFiltered={false} />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import CloseIcon from '@mui/icons-material/Close';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import ScienceIcon from '@mui/icons-material/Science';
+import { SelectorTestResult } from '@shared/types';
+import { SELECTOR_CHAIN_PATHS, readDefaultChain } from '@shared/selector-profile-service';
+import { useSelectorProfiles } from '../hooks/useSelectorProfiles';
+import { ACErrorAlert } from './ACErrorAlert';
+
+interface ACSelectorProfileEditorProps {
+    onClose: () => void;
+}
+
+function parseSelectorLines(selectorText: string): string[] {
+    return selectorText
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+}
+
+function downloadProfileFile(fileContent: string, profileName: string): void {
+    const blob = new Blob([fileContent], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `selector-profile-${profileName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+export function ACSelectorProfileEditor({
+    onClose,
+}: ACSelectorProfileEditorProps): React.ReactElement {
+    const {
+        profileState,
+        activeProfile,
+        profileError,
+        selectProfile,
+        createProfile,
+        deleteProfile,
+        saveChainOverride,
+        importProfileFile,
+        exportActiveProfile,
+        testSelectorChain,
+        clearProfileError,
+    } = useSelectorProfiles();
+
+    const [selectedChainPath, setSelectedChainPath] = useState(SELECTOR_CHAIN_PATHS[0]);
+    const [selectorText, setSelectorText] = useState('');
+    const [newProfileName, setNewProfileName] = useState<string | null>(null);
+    const [testResults, setTestResults] = useState<SelectorTestResult[] | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const overriddenChain = activeProfile?.overrides[selectedChainPath] ?? null;
+
+    // Switching chain or profile shows what is in effect for it, overrides first
+    useEffect(() => {
+        setSelectorText((overriddenChain ?? readDefaultChain(selectedChainPath)).join('\n'));
+        setTestResults(null);
+    }, [selectedChainPath, overriddenChain]);
+
+    const submitNewProfile = async (): Promise<void> => {
+        if (newProfileName && newProfileName.trim().length > 0 && await createProfile(newProfileName)) {
+            setNewProfileName(null);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+        const profileFile = e.target.files?.[0];
+        e.target.value = '';
+        if (profileFile) {
+            await importProfileFile(await profileFile.text());
+        }
+    };
+
+    const handleExport = (): void => {
+        const fileContent = exportActiveProfile();
+        if (fileContent && activeProfile) {
+            downloadProfileFile(fileContent, activeProfile.profileName);
+        }
+    };
+
+    const handleTest = async (): Promise<void> => {
+        setTestResults(await testSelectorChain(parseSelectorLines(selectorText)));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+            <div className="bg-surface-primary rounded-lg shadow-dropdown p-4 mx-3 w-full max-h-[500px]
+                      flex flex-col animate-fade-in">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-text-primary">Selector profiles</h3>
+                    <button
+                        onClick={onClose}
+                        className="text-text-tertiary hover:text-text-primary transition-colors"
+                        title="Close"
+                    >
+                        <CloseIcon sx={{ fontSize: 18 }} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto -mx-1 px-1">
+                    {profileError && (
+                        <div className="-mx-3 mb-2">
+                            <ACErrorAlert message={profileError} onDismiss={clearProfileError} />
+                        </div>
+                    )}
+
+                    <label className="block text-xs font-medium text-text-secondary mb-1">
+                        Active profile
+                    </label>
+                    <div className="flex items-center gap-1.5">
+                        <select
+                            value={profileState.activeProfileId ?? ''}
+                            onChange={(e) => selectProfile(e.target.value || null)}
+                            className="input-field py-1.5 text-sm flex-1"
+                        >
+                            <option value="">Built-in defaults</option>
+                            {profileState.profiles.map(profile => (
+                                <option key={profile.profileId} value={profile.profileId}>
+                                    {profile.profileName}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => setNewProfileName('')}
+                            className="btn-secondary py-1.5 px-2"
+                            title="New profile"
+                        >
+                            <AddIcon sx={{ fontSize: 16 }} />
+                        </button>
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="btn-secondary py-1.5 px-2"
+                            title="Import profile file"
+                        >
+                            <FileUploadIcon sx={{ fontSize: 16 }} />
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            className="btn-secondary py-1.5 px-2"
+                            title="Export profile file"
+                            disabled={!activeProfile}
+                        >
+                            <FileDownloadIcon sx={{ fontSize: 16 }} />
+                        </button>
+                        <button
+                            onClick={() => activeProfile && deleteProfile(activeProfile.profileId)}
+                            className="btn-secondary py-1.5 px-2"
+                            title="Delete profile"
+                            disabled={!activeProfile}
+                        >
+                            <DeleteOutlineIcon sx={{ fontSize: 16 }} />
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleImport}
+                            className="hidden"
+                        />
+                    </div>
+
+                    {newProfileName !== null && (
+                        <div className="flex items-center gap-1.5 mt-2">
+                            <input
+                                value={newProfileName}
+                                onChange={(e) => setNewProfileName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && submitNewProfile()}
+                                placeholder="Profile name"
+                                className="input-field py-1.5 text-sm flex-1"
+                                autoFocus
+                            />
+                            <button onClick={submitNewProfile} className="btn-primary text-sm py-1.5 px-3">
+                                Create
+                            </button>
+                        </div>
+                    )}
+
+                    <label className="block text-xs font-medium text-text-secondary mt-3 mb-1">
+                        Selector chain
+                    </label>
+                    <select
+                        value={selectedChainPath}
+                        onChange={(e) => setSelectedChainPath(e.target.value)}
+                        className="input-field py-1.5 text-sm"
+                    >
+                        {SELECTOR_CHAIN_PATHS.map(chainPath => (
+                            <option key={chainPath} value={chainPath}>
+                                {activeProfile?.overrides[chainPath] ? `${chainPath} (edited)` : chainPath}
+                            </option>
+                        ))}
+                    </select>
+
+                    <p className="text-xs text-text-tertiary mt-2 mb-1">
+                        {activeProfile
+                            ? 'One selector per line, tried in order until one matches'
+                            : 'Create or select a profile to edit selectors'}
+                    </p>
+                    <textarea
+                        value={selectorText}
+                        onChange={(e) => setSelectorText(e.target.value)}
+                        readOnly={!activeProfile}
+                        rows={5}
+                        spellCheck={false}
+                        className="input-field py-1.5 text-xs font-mono"
+                    />
+
+                    <div className="flex items-center gap-1.5 mt-2">
+                        <button onClick={handleTest} className="btn-secondary text-sm py-1.5 px-3 flex items-center gap-1">
+                            <ScienceIcon sx={{ fontSize: 16 }} />
+                            Test on page
+                        </button>
+                        <div className="flex-1" />
+                        {overriddenChain && (
+                            <button
+                                onClick={() => saveChainOverride(selectedChainPath, null)}
+                                className="btn-secondary text-sm py-1.5 px-3"
+                            >
+                                Reset
+                            </button>
+                        )}
+                        <button
+                            onClick={() => saveChainOverride(selectedChainPath, parseSelectorLines(selectorText))}
+                            className="btn-primary text-sm py-1.5 px-3"
+                            disabled={!activeProfile}
+                        >
+                            Save
+                        </button>
+                    </div>
+
+                    {testResults && (
+                        <ul className="mt-2 space-y-1">
+                            {testResults.map(testResult => (
+                                <li key={testResult.selector} className="text-xs">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-mono text-text-primary text-truncate">
+                                            {testResult.selector}
+                                        </span>
+                                        <span className={`badge ${!testResult.isValid
+                                            ? 'bg-red-100 text-red-700'
+                                            : testResult.matchCount > 0
+                                                ? 'bg-green-100 text-green-700'
+                                                : 'bg-slate-100 text-slate-700'}`}
+                                        >
+                                            {testResult.isValid ? `${testResult.matchCount} matches` : 'Invalid'}
+                                        </span>
+                                    </div>
+                                    {testResult.sampleText && (
+                                        <p className="text-text-tertiary text-truncate">{testResult.sampleText}</p>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
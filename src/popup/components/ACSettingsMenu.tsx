@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import SettingsIcon from '@mui/icons-material/Settings';
+import { ACUserPreferences } from '@shared/types';
+import {
+    NUMBER_LOCALE_OPTIONS,
+    MAX_PAGES_OPTIONS,
+    LIVE_CAPTURE_VIEWS,
+    LIVE_CAPTURE_THROTTLE_OPTIONS,
+    SUB_VIEW_LABELS
+} from '@shared/constants';
+import { ACSelectorProfileEditor } from './ACSelectorProfileEditor';
+
+interface ACSettingsMenuProps {
+    preferences: ACUserPreferences;
+    onPreferencesChange: (changes: Partial<ACUserPreferences>) => void;
+}
+
+export function ACSettingsMenu({
+    preferences,
+    onPreferencesChange,
+}: ACSettingsMenuProps): React.ReactElement {
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+
+    const toggleLiveCaptureView = (subView: string, isEnabled: boolean): void => {
+        const otherViews = preferences.liveCaptureViews.filter(view => view !== subView);
+        onPreferencesChange({
+            liveCaptureViews: isEnabled ? [...otherViews, subView] : otherViews,
+        });
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsMenuOpen(!isMenuOpen)}
+                className="btn-secondary flex items-center text-sm py-1.5 px-2"
+                title="Extraction settings"
+            >
+                <SettingsIcon sx={{ fontSize: 16 }} />
+            </button>
+
+            {isMenuOpen && (
+                <>
+                    <div
+                        className="fixed inset-0 z-40"
+                        onClick={() => setIsMenuOpen(false)}
+                    />
+                    <div className="absolute right-0 bottom-full mb-1 z-50 bg-surface-primary
+                          rounded-lg shadow-dropdown border border-border-light
+                          p-3 min-w-[220px] animate-fade-in">
+                        <label className="block text-xs font-medium text-text-secondary mb-1">
+                            Number format
+                        </label>
+                        <select
+                            value={preferences.numberLocale}
+                            onChange={(e) => onPreferencesChange({ numberLocale: e.target.value })}
+                            className="input-field py-1.5 text-sm"
+                        >
+                            {NUMBER_LOCALE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+
+                        <label className="block text-xs font-medium text-text-secondary mt-3 mb-1">
+                            Page limit per extraction
+                        </label>
+                        <select
+                            value={preferences.maxPages}
+                            onChange={(e) => onPreferencesChange({ maxPages: Number(e.target.value) })}
+                            className="input-field py-1.5 text-sm"
+                        >
+                            {MAX_PAGES_OPTIONS.map(pageCount => (
+                                <option key={pageCount} value={pageCount}>
+                                    {pageCount} pages
+                                </option>
+                            ))}
+                        </select>
+
+                        <label className="block text-xs font-medium text-text-secondary mt-3 mb-1">
+                            Live capture
+                        </label>
+                        <p className="text-xs text-text-tertiary mb-1.5">
+                            Save new rows as they appear on these views
+                        </p>
+                        <div className="space-y-1">
+                            {LIVE_CAPTURE_VIEWS.map(subView => (
+                                <label key={subView} className="flex items-center gap-2 text-sm text-text-primary">
+                                    <input
+                                        type="checkbox"
+                                        checked={preferences.liveCaptureViews.includes(subView)}
+                                        onChange={(e) => toggleLiveCaptureView(subView, e.target.checked)}
+                                    />
+                                    {SUB_VIEW_LABELS[subView]}
+                                </label>
+                            ))}
+                        </div>
+                        <select
+                            value={preferences.liveCaptureThrottleMs}
+                            onChange={(e) => onPreferencesChange({ liveCaptureThrottleMs: Number(e.target.value) })}
+                            className="input-field py-1.5 text-sm mt-2"
+                            disabled={preferences.liveCaptureViews.length === 0}
+                        >
+                            {LIVE_CAPTURE_THROTTLE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+
+                        <button
+                            onClick={() => {
+                                setIsMenuOpen(false);
+                                setIsProfileEditorOpen(true);
+                            }}
+                            className="btn-secondary w-full text-sm py-1.5 mt-3"
+                        >
+                            Edit selector profiles
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {isProfileEditorOpen && (
+                <ACSelectorProfileEditor onClose={() => setIsProfileEditorOpen(false)} />
+            )}
+        </div>
+    );
+}
@@ -2,8 +2,11 @@ import React from 'react';
 import PersonIcon from '@mui/icons-material/Person';
 import MonetizationOnIcon from '@mui/icons-material/MonetizationOn';
 import TaskAltIcon from '@mui/icons-material/TaskAlt';
+import BusinessIcon from '@mui/icons-material/Business';
+import TimelineIcon from '@mui/icons-material/Timeline';
+import HistoryIcon from '@mui/icons-material/History';
 
-type TabId = 'contacts' | 'deals' | 'tasks';
+type TabId = 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities' | 'history';
 
 interface TabConfig {
     id: TabId;
@@ -18,6 +21,9 @@ interface ACTabNavigationProps {
     contactCount: number;
     dealCount: number;
     taskCount: number;
+    accountCount: number;
+    activityCount: number;
+    historyCount: number;
 }
 
 export function ACTabNavigation({
@@ -26,6 +32,9 @@ export function ACTabNavigation({
     contactCount,
     dealCount,
     taskCount,
+    accountCount,
+    activityCount,
+    historyCount,
 }: ACTabNavigationProps): React.ReactElement {
     const tabConfigs: TabConfig[] = [
         {
@@ -46,6 +55,24 @@ export function ACTabNavigation({
             icon: <TaskAltIcon sx={{ fontSize: 18 }} />,
             count: taskCount,
         },
+        {
+            id: 'accounts',
+            label: 'Accounts',
+            icon: <BusinessIcon sx={{ fontSize: 18 }} />,
+            count: accountCount,
+        },
+        {
+            id: 'activities',
+            label: 'Activity',
+            icon: <TimelineIcon sx={{ fontSize: 18 }} />,
+            count: activityCount,
+        },
+        {
+            id: 'history',
+            label: 'History',
+            icon: <HistoryIcon sx={{ fontSize: 18 }} />,
+            count: historyCount,
+        },
     ];
 
     return (
@@ -57,8 +84,9 @@ export function ACTabNavigation({
                     <button
                         key={tab.id}
                         onClick={() => onTabChange(tab.id)}
+                        title={tab.label}
                         className={`
-              flex-1 flex items-center justify-center gap-1.5 py-2.5 px-3
+              flex-1 flex items-center justify-center gap-1 py-2.5 px-1.5
               text-sm font-medium transition-colors duration-150
               border-b-2 -mb-px
               ${isActive
@@ -68,9 +96,10 @@ export function ACTabNavigation({
             `}
                     >
                         {tab.icon}
-                        <span>{tab.label}</span>
+                        {/* Only the active tab is labelled so all tabs fit the popup width */}
+                        {isActive && <span>{tab.label}</span>}
                         <span className={`
-              ml-1 px-1.5 py-0.5 rounded-full text-xs font-medium
+              px-1.5 py-0.5 rounded-full text-xs font-medium
               ${isActive
                                 ? 'bg-primary-100 text-primary-700'
                                 : 'bg-surface-tertiary text-text-tertiary'
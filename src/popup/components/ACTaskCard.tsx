@@ -6,8 +6,11 @@ import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import PersonIcon from '@mui/icons-material/Person';
 import LinkIcon from '@mui/icons-material/Link';
 import ScheduleIcon from '@mui/icons-material/Schedule';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import FlagIcon from '@mui/icons-material/Flag';
+import TimerIcon from '@mui/icons-material/Timer';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
-import { ACTask, TaskType } from '@shared/types';
+import { ACTask, TaskType, TaskPriority } from '@shared/types';
 
 interface ACTaskCardProps {
     task: ACTask;
@@ -41,6 +44,52 @@ const taskTypeConfig: Record<TaskType, {
     },
 };
 
+const priorityColorMap: Record<TaskPriority, string> = {
+    low: 'bg-slate-100 text-slate-700',
+    medium: 'bg-amber-100 text-amber-700',
+    high: 'bg-red-100 text-red-700',
+};
+
+function formatDueTime(dueTime: string | undefined): string {
+    if (!dueTime) {
+        return '';
+    }
+
+    const parsedTime = new Date(dueTime);
+    if (isNaN(parsedTime.getTime())) {
+        return '';
+    }
+
+    // Shown in the reader's timezone, which is what they will act on
+    return parsedTime.toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZoneName: 'short',
+    });
+}
+
+function formatDuration(minutes: number): string {
+    if (minutes < 60) {
+        return `${minutes} min`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+    const remainder = minutes % 60;
+    return remainder > 0 ? `${hours} hr ${remainder} min` : `${hours} hr`;
+}
+
+function formatCompletedAt(completedAt: string | undefined): string {
+    const parsedDate = completedAt ? new Date(completedAt) : null;
+    if (!parsedDate || isNaN(parsedDate.getTime())) {
+        return completedAt ?? '';
+    }
+
+    return parsedDate.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+    });
+}
+
 function formatDueDate(dateString: string): { display: string; isOverdue: boolean } {
     if (!dateString) {
         return { display: 'No due date', isOverdue: false };
@@ -83,7 +132,14 @@ export function ACTaskCard({
     onDelete
 }: ACTaskCardProps): React.ReactElement {
     const typeConfig = taskTypeConfig[task.type];
+    const isCompleted = task.status === 'completed';
     const dueInfo = formatDueDate(task.dueDate);
+    const dueTimeDisplay = formatDueTime(task.dueTime);
+    // A finished task is never overdue, so its past due date is shown plainly
+    const isOverdue = dueInfo.isOverdue && !isCompleted;
+    const dueDisplay = isCompleted && dueInfo.isOverdue
+        ? new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        : dueInfo.display;
 
     return (
         <div className="card-container group">
@@ -94,19 +150,53 @@ export function ACTaskCard({
                             {typeConfig.icon}
                             {typeConfig.label}
                         </span>
+                        {isCompleted && (
+                            <span className="badge bg-green-100 text-green-700 flex items-center gap-1">
+                                <CheckCircleIcon sx={{ fontSize: 12 }} />
+                                Completed
+                            </span>
+                        )}
+                        {task.priority && (
+                            <span className={`badge ${priorityColorMap[task.priority]} flex items-center gap-1 capitalize`}>
+                                <FlagIcon sx={{ fontSize: 12 }} />
+                                {task.priority}
+                            </span>
+                        )}
                     </div>
 
-                    <h3 className="text-sm font-semibold text-text-primary mb-2 text-truncate">
+                    <h3 className={`text-sm font-semibold mb-2 text-truncate ${isCompleted
+                        ? 'text-text-tertiary line-through'
+                        : 'text-text-primary'
+                        }`}>
                         {task.title || 'Untitled Task'}
                     </h3>
 
+                    {task.description && (
+                        <p className="text-xs text-text-secondary mb-2 line-clamp-2" title={task.description}>
+                            {task.description}
+                        </p>
+                    )}
+
                     <div className="flex items-center gap-1.5 text-xs mb-1">
-                        <ScheduleIcon sx={{ fontSize: 14, color: dueInfo.isOverdue ? '#dc2626' : '#64748b' }} />
-                        <span className={dueInfo.isOverdue ? 'text-status-error font-medium' : 'text-text-secondary'}>
-                            {dueInfo.display}
+                        <ScheduleIcon sx={{ fontSize: 14, color: isOverdue ? '#dc2626' : '#64748b' }} />
+                        <span className={isOverdue ? 'text-status-error font-medium' : 'text-text-secondary'}>
+                            {dueDisplay}
+                            {dueTimeDisplay && ` at ${dueTimeDisplay}`}
                         </span>
+                        {task.duration !== undefined && (
+                            <span className="flex items-center gap-1 text-text-tertiary ml-2">
+                                <TimerIcon sx={{ fontSize: 12 }} />
+                                {formatDuration(task.duration)}
+                            </span>
+                        )}
                     </div>
 
+                    {isCompleted && task.completedAt && (
+                        <div className="text-xs text-text-tertiary mb-1">
+                            Completed {formatCompletedAt(task.completedAt)}
+                        </div>
+                    )}
+
                     {task.assignee && (
                         <div className="flex items-center gap-1.5 text-xs text-text-secondary mb-1">
                             <PersonIcon sx={{ fontSize: 14, color: '#64748b' }} />
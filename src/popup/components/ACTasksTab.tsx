@@ -1,11 +1,17 @@
 import React from 'react';
-import { ACTask } from '@shared/types';
+import { ACTask, TaskStatus } from '@shared/types';
 import { useTaskSearchManager } from '../hooks/useSearchManager';
 import { useDeleteConfirmation, ACDeleteConfirmDialog } from './ACDeleteConfirm';
 import { ACSearchBar } from './ACSearchBar';
 import { ACTaskCard } from './ACTaskCard';
 import { ACEmptyState } from './ACEmptyState';
 
+const statusFilterOptions: Array<{ value: TaskStatus | ''; label: string }> = [
+    { value: '', label: 'All' },
+    { value: 'open', label: 'Open' },
+    { value: 'completed', label: 'Completed' },
+];
+
 interface ACTasksTabProps {
     tasks: ACTask[];
     onDeleteTask: (taskId: string) => Promise<boolean>;
@@ -17,10 +23,12 @@ export function ACTasksTab({
 }: ACTasksTabProps): React.ReactElement {
     const {
         searchQuery,
+        activeFilters,
         filteredRecords,
         totalCount,
         filteredCount,
         updateSearchQuery,
+        updateTaskStatusFilter,
         clearAllFilters,
     } = useTaskSearchManager(tasks);
 
@@ -32,7 +40,7 @@ export function ACTasksTab({
         cancelDelete,
     } = useDeleteConfirmation(onDeleteTask);
 
-    const isFiltered = searchQuery.trim().length > 0;
+    const isFiltered = searchQuery.trim().length > 0 || Boolean(activeFilters.taskStatus);
     const hasRecords = filteredRecords.length > 0;
 
     return (
@@ -45,6 +53,25 @@ export function ACTasksTab({
                 totalCount={totalCount}
             />
 
+            <div className="flex items-center gap-1 px-3 py-2 border-b border-border-light">
+                {statusFilterOptions.map(option => {
+                    const isSelected = (activeFilters.taskStatus ?? '') === option.value;
+
+                    return (
+                        <button
+                            key={option.label}
+                            onClick={() => updateTaskStatusFilter(option.value)}
+                            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${isSelected
+                                ? 'bg-primary-100 text-primary-700'
+                                : 'text-text-secondary hover:bg-surface-tertiary'
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    );
+                })}
+            </div>
+
             <div className="flex-1 overflow-y-auto">
                 {hasRecords ? (
                     <div className="p-3 space-y-2">
@@ -0,0 +1,72 @@
+import React from 'react';
+import TravelExploreIcon from '@mui/icons-material/TravelExplore';
+import { ViewDetectionResult } from '@shared/types';
+import { SUB_VIEW_LABELS } from '@shared/constants';
+
+interface ACViewSummaryProps {
+    viewResult: ViewDetectionResult;
+}
+
+function describeCapture(viewResult: ViewDetectionResult): string {
+    switch (viewResult.subView) {
+        case 'pipeline_board':
+            return `Every deal on the ${viewResult.pipelineName ?? 'pipeline'} board`;
+        case 'deals_list':
+            return viewResult.pipelineName
+                ? `Deals in the ${viewResult.pipelineName} list`
+                : 'Deals in this list';
+        case 'deal_detail':
+            return 'Activity timeline of this deal';
+        case 'contact_list':
+            return 'Contacts in this list';
+        case 'contact_detail':
+            return 'This contact\'s profile and activity timeline';
+        case 'segment_list':
+            return `Contacts in ${viewResult.activeFilter ?? 'this segment'}`;
+        case 'tasks_list':
+            return 'Tasks in this list';
+        case 'tasks_calendar':
+            return 'Tasks in the month shown on the calendar';
+        case 'accounts_list':
+            return 'Accounts in this list';
+        default:
+            return 'Nothing on this page can be extracted';
+    }
+}
+
+function describeScope(viewResult: ViewDetectionResult): string | null {
+    const scopeParts: string[] = [];
+
+    // The segment name is already part of the capture line for segment lists
+    if (viewResult.activeFilter && viewResult.subView !== 'segment_list') {
+        scopeParts.push(`Filter: ${viewResult.activeFilter}`);
+    }
+    if (viewResult.totalRecordCount !== null) {
+        scopeParts.push(`${viewResult.totalRecordCount.toLocaleString()} records on page`);
+    }
+
+    return scopeParts.length > 0 ? scopeParts.join(' · ') : null;
+}
+
+export function ACViewSummary({
+    viewResult,
+}: ACViewSummaryProps): React.ReactElement {
+    const scopeText = describeScope(viewResult);
+
+    return (
+        <div className="px-4 py-2 border-b border-border-light bg-surface-secondary flex items-start gap-2">
+            <TravelExploreIcon sx={{ color: '#64748b', fontSize: 16, flexShrink: 0, marginTop: '2px' }} />
+            <div className="min-w-0">
+                <p className="text-xs text-text-primary text-truncate">
+                    <span className="font-medium">{SUB_VIEW_LABELS[viewResult.subView]}:</span>{' '}
+                    {describeCapture(viewResult)}
+                </p>
+                {scopeText && (
+                    <p className="text-xs text-text-tertiary text-truncate">
+                        {scopeText}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import CloseIcon from '@mui/icons-material/Close';
+
+interface ACWarningAlertProps {
+    message: string;
+    onDismiss: () => void;
+}
+
+export function ACWarningAlert({
+    message,
+    onDismiss,
+}: ACWarningAlertProps): React.ReactElement {
+    return (
+        <div className="mx-3 mt-2 p-3 bg-status-warningLight border border-amber-200 
+                    rounded-lg flex items-start gap-2 animate-slide-in">
+            <WarningAmberIcon sx={{ color: '#d97706', fontSize: 18, flexShrink: 0, marginTop: '1px' }} />
+            <p className="flex-1 text-sm text-status-warning">
+                {message}
+            </p>
+            <button
+                onClick={onDismiss}
+                className="text-status-warning hover:text-amber-800 transition-colors"
+            >
+                <CloseIcon sx={{ fontSize: 16 }} />
+            </button>
+        </div>
+    );
+}
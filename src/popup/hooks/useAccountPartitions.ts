@@ -0,0 +1,105 @@
+/**
+ * Custom hook for listing the ActiveCampaign accounts with stored data
+ * Tracks which account the popup is showing, defaulting to the active tab's
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { AccountPartitionSummary } from '@shared/types';
+import { MESSAGE_ACTIONS, MessageResponse } from '@shared/message-types';
+import { STORAGE_KEYS } from '@shared/constants';
+
+interface AccountPartitionsState {
+    accountPartitions: AccountPartitionSummary[];
+    selectedAccountHost: string | null;
+    activeTabAccountHost: string | null;
+}
+
+interface AccountPartitionsActions {
+    selectAccount: (accountHost: string) => void;
+    refreshAccountPartitions: () => Promise<void>;
+}
+
+type UseAccountPartitionsReturn = AccountPartitionsState & AccountPartitionsActions;
+
+async function readActiveTabAccountHost(): Promise<string | null> {
+    try {
+        const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        const hostname = activeTab?.url ? new URL(activeTab.url).hostname.toLowerCase() : '';
+        return hostname.endsWith('activecampaign.com') || hostname.endsWith('activehosted.com')
+            ? hostname
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+export function useAccountPartitions(): UseAccountPartitionsReturn {
+    const [accountPartitions, setAccountPartitions] = useState<AccountPartitionSummary[]>([]);
+    const [selectedAccountHost, setSelectedAccountHost] = useState<string | null>(null);
+    const [activeTabAccountHost, setActiveTabAccountHost] = useState<string | null>(null);
+
+    const refreshAccountPartitions = useCallback(async (): Promise<void> => {
+        const tabAccountHost = await readActiveTabAccountHost();
+        let storedPartitions: AccountPartitionSummary[] = [];
+
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: MESSAGE_ACTIONS.LIST_ACCOUNTS,
+                timestamp: Date.now(),
+            }) as MessageResponse<AccountPartitionSummary[]>;
+
+            storedPartitions = response.success && response.payload ? response.payload : [];
+        } catch {
+            storedPartitions = [];
+        }
+
+        // The open account is listed even before its first extraction so new data has somewhere to show
+        const partitions = tabAccountHost && !storedPartitions.some(partition => partition.accountHost === tabAccountHost)
+            ? [...storedPartitions, { accountHost: tabAccountHost, recordCount: 0, lastSync: 0 }]
+            : storedPartitions;
+
+        setAccountPartitions(partitions);
+        setActiveTabAccountHost(tabAccountHost);
+        setSelectedAccountHost(currentHost => {
+            if (currentHost && partitions.some(partition => partition.accountHost === currentHost)) {
+                return currentHost;
+            }
+            return tabAccountHost ?? partitions[0]?.accountHost ?? null;
+        });
+    }, []);
+
+    const selectAccount = useCallback((accountHost: string) => {
+        setSelectedAccountHost(accountHost);
+    }, []);
+
+    useEffect(() => {
+        refreshAccountPartitions();
+    }, [refreshAccountPartitions]);
+
+    useEffect(() => {
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            namespace: string
+        ) => {
+            const hasPartitionChange = Object.keys(changes)
+                .some(storageKey => storageKey.startsWith(STORAGE_KEYS.ACCOUNT_DATA_PREFIX));
+            if (namespace === 'local' && hasPartitionChange) {
+                refreshAccountPartitions();
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleStorageChange);
+
+        return () => {
+            chrome.storage.onChanged.removeListener(handleStorageChange);
+        };
+    }, [refreshAccountPartitions]);
+
+    return {
+        accountPartitions,
+        selectedAccountHost,
+        activeTabAccountHost,
+        selectAccount,
+        refreshAccountPartitions,
+    };
+}
@@ -3,21 +3,23 @@
  * Manages extraction state and communicates with content script
  */
 
-import { useState, useCallback } from 'react';
-import { MESSAGE_ACTIONS, MessageResponse } from '@shared/message-types';
+import { useState, useEffect, useCallback } from 'react';
+import { MESSAGE_ACTIONS, MessageResponse, ExtractionProgressMessage } from '@shared/message-types';
+import { ExtractionRunResult, ExtractionProgress } from '@shared/types';
 
 interface ExtractionManagerState {
     isExtracting: boolean;
     extractionError: string | null;
-    lastExtractionResult: {
-        entityType: string;
-        count: number;
-    } | null;
+    extractionWarning: string | null;
+    extractionProgress: ExtractionProgress | null;
+    lastExtractionResult: ExtractionRunResult | null;
 }
 
 interface ExtractionManagerActions {
     triggerExtraction: () => Promise<boolean>;
+    cancelExtraction: (keepPartialResults: boolean) => Promise<boolean>;
     clearExtractionError: () => void;
+    clearExtractionWarning: () => void;
 }
 
 type UseExtractionManagerReturn = ExtractionManagerState & ExtractionManagerActions;
@@ -25,24 +27,26 @@ type UseExtractionManagerReturn = ExtractionManagerState & ExtractionManagerActi
 export function useExtractionManager(): UseExtractionManagerReturn {
     const [isExtracting, setIsExtracting] = useState(false);
     const [extractionError, setExtractionError] = useState<string | null>(null);
-    const [lastExtractionResult, setLastExtractionResult] = useState<{
-        entityType: string;
-        count: number;
-    } | null>(null);
+    const [extractionWarning, setExtractionWarning] = useState<string | null>(null);
+    const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+    const [lastExtractionResult, setLastExtractionResult] = useState<ExtractionRunResult | null>(null);
 
     const triggerExtraction = useCallback(async (): Promise<boolean> => {
         setIsExtracting(true);
         setExtractionError(null);
+        setExtractionWarning(null);
+        setExtractionProgress(null);
         setLastExtractionResult(null);
 
         try {
             const response = await chrome.runtime.sendMessage({
                 action: MESSAGE_ACTIONS.TRIGGER_EXTRACTION,
                 timestamp: Date.now(),
-            }) as MessageResponse<{ entityType: string; count: number }>;
+            }) as MessageResponse<ExtractionRunResult>;
 
             if (response.success && response.payload) {
                 setLastExtractionResult(response.payload);
+                setExtractionWarning(response.payload.warningMessage ?? null);
                 return true;
             }
 
@@ -62,18 +66,56 @@ export function useExtractionManager(): UseExtractionManagerReturn {
 
         } finally {
             setIsExtracting(false);
+            setExtractionProgress(null);
         }
     }, []);
 
+    const cancelExtraction = useCallback(async (keepPartialResults: boolean): Promise<boolean> => {
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: MESSAGE_ACTIONS.CANCEL_EXTRACTION,
+                keepPartialResults,
+                timestamp: Date.now(),
+            }) as MessageResponse;
+
+            return response.success;
+
+        } catch {
+            return false;
+        }
+    }, []);
+
+    useEffect(() => {
+        const handleProgressMessage = (message: { action?: string }) => {
+            if (message.action === MESSAGE_ACTIONS.EXTRACTION_PROGRESS) {
+                setExtractionProgress((message as ExtractionProgressMessage).progress);
+            }
+        };
+
+        chrome.runtime.onMessage.addListener(handleProgressMessage);
+
+        return () => {
+            chrome.runtime.onMessage.removeListener(handleProgressMessage);
+        };
+    }, []);
+
     const clearExtractionError = useCallback(() => {
         setExtractionError(null);
     }, []);
 
+    const clearExtractionWarning = useCallback(() => {
+        setExtractionWarning(null);
+    }, []);
+
     return {
         isExtracting,
         extractionError,
+        extractionWarning,
+        extractionProgress,
         lastExtractionResult,
         triggerExtraction,
+        cancelExtraction,
         clearExtractionError,
+        clearExtractionWarning,
     };
 }
@@ -0,0 +1,72 @@
+/**
+ * Custom hook for reading and updating user preferences
+ * Keeps popup settings in sync with chrome.storage
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ACUserPreferences } from '@shared/types';
+import { DEFAULT_USER_PREFERENCES, STORAGE_KEYS } from '@shared/constants';
+import { preferencesStore } from '@shared/preferences-service';
+
+interface PreferencesManagerState {
+    preferences: ACUserPreferences;
+    preferencesError: string | null;
+}
+
+interface PreferencesManagerActions {
+    updatePreferences: (changes: Partial<ACUserPreferences>) => Promise<boolean>;
+}
+
+type UsePreferencesManagerReturn = PreferencesManagerState & PreferencesManagerActions;
+
+export function usePreferencesManager(): UsePreferencesManagerReturn {
+    const [preferences, setPreferences] = useState<ACUserPreferences>({
+        ...DEFAULT_USER_PREFERENCES,
+    });
+    const [preferencesError, setPreferencesError] = useState<string | null>(null);
+
+    const updatePreferences = useCallback(async (
+        changes: Partial<ACUserPreferences>
+    ): Promise<boolean> => {
+        const result = await preferencesStore.updatePreferences(changes);
+
+        if (result.success && result.payload) {
+            setPreferences(result.payload);
+            setPreferencesError(null);
+            return true;
+        }
+
+        setPreferencesError(result.errorMessage ?? 'Failed to save preferences');
+        return false;
+    }, []);
+
+    useEffect(() => {
+        preferencesStore.retrievePreferences().then(setPreferences);
+    }, []);
+
+    useEffect(() => {
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            namespace: string
+        ) => {
+            if (namespace === 'local' && changes[STORAGE_KEYS.USER_PREFERENCES]) {
+                const newPreferences = changes[STORAGE_KEYS.USER_PREFERENCES].newValue as ACUserPreferences;
+                if (newPreferences) {
+                    setPreferences({ ...DEFAULT_USER_PREFERENCES, ...newPreferences });
+                }
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleStorageChange);
+
+        return () => {
+            chrome.storage.onChanged.removeListener(handleStorageChange);
+        };
+    }, []);
+
+    return {
+        preferences,
+        preferencesError,
+        updatePreferences,
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Custom hook for reading the extraction run history of one account
+ * Refreshes whenever a run is appended to the log
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ExtractionRunEntry } from '@shared/types';
+import { STORAGE_KEYS } from '@shared/constants';
+import { runHistoryStore } from '@shared/run-history-service';
+
+interface RunHistoryState {
+    historyRuns: ExtractionRunEntry[];
+}
+
+interface RunHistoryActions {
+    refreshRunHistory: () => Promise<void>;
+}
+
+type UseRunHistoryReturn = RunHistoryState & RunHistoryActions;
+
+export function useRunHistory(accountHost: string | null): UseRunHistoryReturn {
+    const [historyRuns, setHistoryRuns] = useState<ExtractionRunEntry[]>([]);
+
+    const refreshRunHistory = useCallback(async (): Promise<void> => {
+        setHistoryRuns(accountHost ? await runHistoryStore.retrieveRuns(accountHost) : []);
+    }, [accountHost]);
+
+    useEffect(() => {
+        refreshRunHistory();
+    }, [refreshRunHistory]);
+
+    useEffect(() => {
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            namespace: string
+        ) => {
+            if (namespace === 'local' && changes[STORAGE_KEYS.RUN_HISTORY]) {
+                refreshRunHistory();
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleStorageChange);
+
+        return () => {
+            chrome.storage.onChanged.removeListener(handleStorageChange);
+        };
+    }, [refreshRunHistory]);
+
+    return {
+        historyRuns,
+        refreshRunHistory,
+    };
+}
@@ -4,7 +4,7 @@
  */
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import { ACContact, ACDeal, ACTask, FilterCriteria, TaskType } from '@shared/types';
+import { ACContact, ACDeal, ACTask, ACAccount, ACActivity, CustomFieldMap, FilterCriteria, TaskType, TaskStatus } from '@shared/types';
 import { UI_CONFIG } from '@shared/constants';
 
 interface SearchManagerState {
@@ -51,6 +51,14 @@ function useDebounce<T>(value: T, delayMs: number): T {
     return debouncedValue;
 }
 
+function matchesCustomFields(
+    customFields: CustomFieldMap | undefined,
+    queryLower: string
+): boolean {
+    return Object.values(customFields ?? {})
+        .some(fieldValue => fieldValue.toLowerCase().includes(queryLower));
+}
+
 export function useContactSearchManager(
     contacts: ACContact[]
 ): UseSearchManagerReturn<ACContact> {
@@ -71,7 +79,8 @@ export function useContactSearchManager(
             contact.email.toLowerCase().includes(queryLower) ||
             contact.phone.toLowerCase().includes(queryLower) ||
             contact.tags.some(tag => tag.toLowerCase().includes(queryLower)) ||
-            contact.owner.toLowerCase().includes(queryLower)
+            contact.owner.toLowerCase().includes(queryLower) ||
+            matchesCustomFields(contact.customFields, queryLower)
         );
     }, [contacts, debouncedQuery]);
 
@@ -132,7 +141,8 @@ export function useDealSearchManager(
                 deal.primaryContact.toLowerCase().includes(queryLower) ||
                 deal.owner.toLowerCase().includes(queryLower) ||
                 deal.pipeline.toLowerCase().includes(queryLower) ||
-                deal.stage.toLowerCase().includes(queryLower)
+                deal.stage.toLowerCase().includes(queryLower) ||
+                matchesCustomFields(deal.customFields, queryLower)
             );
         }
 
@@ -190,9 +200,13 @@ export function useDealSearchManager(
     };
 }
 
+interface TaskFilterActions {
+    updateTaskStatusFilter: (taskStatus: TaskStatus | '') => void;
+}
+
 export function useTaskSearchManager(
     tasks: ACTask[]
-): UseSearchManagerReturn<ACTask> {
+): UseSearchManagerReturn<ACTask> & TaskFilterActions {
     const [searchQuery, setSearchQuery] = useState('');
     const [activeFilters, setActiveFilters] = useState<FilterCriteria>(initialFilters);
 
@@ -207,6 +221,7 @@ export function useTaskSearchManager(
                 task.title.toLowerCase().includes(queryLower) ||
                 task.assignee.toLowerCase().includes(queryLower) ||
                 task.type.toLowerCase().includes(queryLower) ||
+                (task.description?.toLowerCase().includes(queryLower) ?? false) ||
                 (task.linkedEntity?.name.toLowerCase().includes(queryLower) ?? false)
             );
         }
@@ -217,8 +232,15 @@ export function useTaskSearchManager(
             );
         }
 
+        // Tasks extracted before status was captured count as open
+        if (activeFilters.taskStatus) {
+            filtered = filtered.filter(task =>
+                (task.status ?? 'open') === activeFilters.taskStatus
+            );
+        }
+
         return filtered;
-    }, [tasks, debouncedQuery, activeFilters.taskType]);
+    }, [tasks, debouncedQuery, activeFilters.taskType, activeFilters.taskStatus]);
 
     const updateSearchQuery = useCallback((query: string) => {
         setSearchQuery(query);
@@ -240,6 +262,13 @@ export function useTaskSearchManager(
         }));
     }, []);
 
+    const updateTaskStatusFilter = useCallback((taskStatus: TaskStatus | '') => {
+        setActiveFilters(prev => ({
+            ...prev,
+            taskStatus: taskStatus || undefined
+        }));
+    }, []);
+
     const clearAllFilters = useCallback(() => {
         setSearchQuery('');
         setActiveFilters(initialFilters);
@@ -255,6 +284,149 @@ export function useTaskSearchManager(
         updatePipelineFilter,
         updateStageFilter,
         updateTaskTypeFilter,
+        updateTaskStatusFilter,
+        clearAllFilters,
+    };
+}
+
+export function useAccountSearchManager(
+    accounts: ACAccount[]
+): UseSearchManagerReturn<ACAccount> {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [activeFilters, setActiveFilters] = useState<FilterCriteria>(initialFilters);
+
+    const debouncedQuery = useDebounce(searchQuery, UI_CONFIG.SEARCH_DEBOUNCE_MS);
+
+    const filteredRecords = useMemo(() => {
+        if (!debouncedQuery.trim()) {
+            return accounts;
+        }
+
+        const queryLower = debouncedQuery.toLowerCase();
+
+        return accounts.filter(account =>
+            account.name.toLowerCase().includes(queryLower) ||
+            account.url.toLowerCase().includes(queryLower) ||
+            account.owner.toLowerCase().includes(queryLower) ||
+            matchesCustomFields(account.customFields, queryLower)
+        );
+    }, [accounts, debouncedQuery]);
+
+    const updateSearchQuery = useCallback((query: string) => {
+        setSearchQuery(query);
+        setActiveFilters(prev => ({ ...prev, searchQuery: query }));
+    }, []);
+
+    const updatePipelineFilter = useCallback((pipeline: string) => {
+        setActiveFilters(prev => ({ ...prev, pipeline }));
+    }, []);
+
+    const updateStageFilter = useCallback((stage: string) => {
+        setActiveFilters(prev => ({ ...prev, stage }));
+    }, []);
+
+    const updateTaskTypeFilter = useCallback((taskType: TaskType | '') => {
+        setActiveFilters(prev => ({
+            ...prev,
+            taskType: taskType || undefined
+        }));
+    }, []);
+
+    const clearAllFilters = useCallback(() => {
+        setSearchQuery('');
+        setActiveFilters(initialFilters);
+    }, []);
+
+    return {
+        searchQuery,
+        activeFilters,
+        filteredRecords,
+        totalCount: accounts.length,
+        filteredCount: filteredRecords.length,
+        updateSearchQuery,
+        updatePipelineFilter,
+        updateStageFilter,
+        updateTaskTypeFilter,
+        clearAllFilters,
+    };
+}
+
+interface ActivityFilterActions {
+    updateParentFilter: (parentRecordId: string) => void;
+}
+
+export function useActivitySearchManager(
+    activities: ACActivity[]
+): UseSearchManagerReturn<ACActivity> & ActivityFilterActions {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [activeFilters, setActiveFilters] = useState<FilterCriteria>(initialFilters);
+
+    const debouncedQuery = useDebounce(searchQuery, UI_CONFIG.SEARCH_DEBOUNCE_MS);
+
+    const filteredRecords = useMemo(() => {
+        let filtered = activities;
+
+        if (debouncedQuery.trim()) {
+            const queryLower = debouncedQuery.toLowerCase();
+            filtered = filtered.filter(activity =>
+                activity.body.toLowerCase().includes(queryLower) ||
+                activity.author.toLowerCase().includes(queryLower) ||
+                activity.parent.name.toLowerCase().includes(queryLower)
+            );
+        }
+
+        if (activeFilters.parentRecordId) {
+            filtered = filtered.filter(activity =>
+                activity.parent.id === activeFilters.parentRecordId
+            );
+        }
+
+        return filtered;
+    }, [activities, debouncedQuery, activeFilters.parentRecordId]);
+
+    const updateSearchQuery = useCallback((query: string) => {
+        setSearchQuery(query);
+        setActiveFilters(prev => ({ ...prev, searchQuery: query }));
+    }, []);
+
+    const updatePipelineFilter = useCallback((pipeline: string) => {
+        setActiveFilters(prev => ({ ...prev, pipeline }));
+    }, []);
+
+    const updateStageFilter = useCallback((stage: string) => {
+        setActiveFilters(prev => ({ ...prev, stage }));
+    }, []);
+
+    const updateTaskTypeFilter = useCallback((taskType: TaskType | '') => {
+        setActiveFilters(prev => ({
+            ...prev,
+            taskType: taskType || undefined
+        }));
+    }, []);
+
+    const updateParentFilter = useCallback((parentRecordId: string) => {
+        setActiveFilters(prev => ({
+            ...prev,
+            parentRecordId: parentRecordId || undefined
+        }));
+    }, []);
+
+    const clearAllFilters = useCallback(() => {
+        setSearchQuery('');
+        setActiveFilters(initialFilters);
+    }, []);
+
+    return {
+        searchQuery,
+        activeFilters,
+        filteredRecords,
+        totalCount: activities.length,
+        filteredCount: filteredRecords.length,
+        updateSearchQuery,
+        updatePipelineFilter,
+        updateStageFilter,
+        updateTaskTypeFilter,
+        updateParentFilter,
         clearAllFilters,
     };
 }
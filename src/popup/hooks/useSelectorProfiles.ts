@@ -0,0 +1,164 @@
+/**
+ * Custom hook for managing selector profiles from the popup
+ * Edits, imports and exports profiles and tests chains against the open page
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { SelectorProfile, SelectorProfileState, SelectorTestResult } from '@shared/types';
+import { MESSAGE_ACTIONS, MessageResponse } from '@shared/message-types';
+import { STORAGE_KEYS } from '@shared/constants';
+import { selectorProfiles } from '@shared/selector-profile-service';
+
+interface SelectorProfilesState {
+    profileState: SelectorProfileState;
+    activeProfile: SelectorProfile | null;
+    profileError: string | null;
+}
+
+interface SelectorProfilesActions {
+    selectProfile: (profileId: string | null) => Promise<boolean>;
+    createProfile: (profileName: string) => Promise<boolean>;
+    deleteProfile: (profileId: string) => Promise<boolean>;
+    saveChainOverride: (chainPath: string, selectors: string[] | null) => Promise<boolean>;
+    importProfileFile: (fileContent: string) => Promise<boolean>;
+    exportActiveProfile: () => string | null;
+    testSelectorChain: (selectors: string[]) => Promise<SelectorTestResult[] | null>;
+    clearProfileError: () => void;
+}
+
+type UseSelectorProfilesReturn = SelectorProfilesState & SelectorProfilesActions;
+
+export function useSelectorProfiles(): UseSelectorProfilesReturn {
+    const [profileState, setProfileState] = useState<SelectorProfileState>({
+        activeProfileId: null,
+        profiles: [],
+    });
+    const [profileError, setProfileError] = useState<string | null>(null);
+
+    const activeProfile = profileState.profiles
+        .find(profile => profile.profileId === profileState.activeProfileId) ?? null;
+
+    const applyResult = useCallback((
+        result: { success: boolean; payload: SelectorProfileState | null; errorMessage: string | null },
+        fallbackError: string
+    ): boolean => {
+        if (result.success && result.payload) {
+            setProfileState(result.payload);
+            setProfileError(null);
+            return true;
+        }
+
+        setProfileError(result.errorMessage ?? fallbackError);
+        return false;
+    }, []);
+
+    const selectProfile = useCallback(async (profileId: string | null): Promise<boolean> => {
+        return applyResult(await selectorProfiles.setActiveProfile(profileId), 'Failed to switch profile');
+    }, [applyResult]);
+
+    const createProfile = useCallback(async (profileName: string): Promise<boolean> => {
+        const newProfile = selectorProfiles.createProfile(profileName);
+        const saveResult = await selectorProfiles.saveProfile(newProfile);
+        if (!applyResult(saveResult, 'Failed to create profile')) {
+            return false;
+        }
+
+        // A new profile is created to be edited, so it becomes the active one straight away
+        return applyResult(await selectorProfiles.setActiveProfile(newProfile.profileId), 'Failed to switch profile');
+    }, [applyResult]);
+
+    const deleteProfile = useCallback(async (profileId: string): Promise<boolean> => {
+        return applyResult(await selectorProfiles.deleteProfile(profileId), 'Failed to delete profile');
+    }, [applyResult]);
+
+    const saveChainOverride = useCallback(async (
+        chainPath: string,
+        selectors: string[] | null
+    ): Promise<boolean> => {
+        if (!activeProfile) {
+            setProfileError('Create a profile before editing selectors');
+            return false;
+        }
+
+        // A null list resets the chain to the built-in defaults
+        const otherOverrides = Object.fromEntries(
+            Object.entries(activeProfile.overrides).filter(([overridePath]) => overridePath !== chainPath)
+        );
+        const updatedOverrides = selectors ? { ...otherOverrides, [chainPath]: selectors } : otherOverrides;
+
+        return applyResult(
+            await selectorProfiles.saveProfile({ ...activeProfile, overrides: updatedOverrides }),
+            'Failed to save selectors'
+        );
+    }, [activeProfile, applyResult]);
+
+    const importProfileFile = useCallback(async (fileContent: string): Promise<boolean> => {
+        return applyResult(await selectorProfiles.importProfile(fileContent), 'Failed to import profile');
+    }, [applyResult]);
+
+    const exportActiveProfile = useCallback((): string | null => {
+        return activeProfile ? selectorProfiles.exportProfile(activeProfile) : null;
+    }, [activeProfile]);
+
+    const testSelectorChain = useCallback(async (
+        selectors: string[]
+    ): Promise<SelectorTestResult[] | null> => {
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: MESSAGE_ACTIONS.TEST_SELECTOR_CHAIN,
+                selectors,
+                timestamp: Date.now(),
+            }) as MessageResponse<SelectorTestResult[]>;
+
+            if (response.success && response.payload) {
+                setProfileError(null);
+                return response.payload;
+            }
+
+            setProfileError(response.errorMessage ?? 'Failed to test selectors');
+            return null;
+        } catch (error) {
+            setProfileError(error instanceof Error ? error.message : 'Failed to test selectors');
+            return null;
+        }
+    }, []);
+
+    const clearProfileError = useCallback(() => {
+        setProfileError(null);
+    }, []);
+
+    useEffect(() => {
+        selectorProfiles.retrieveState().then(setProfileState);
+    }, []);
+
+    useEffect(() => {
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            namespace: string
+        ) => {
+            if (namespace === 'local' && changes[STORAGE_KEYS.SELECTOR_PROFILES]) {
+                selectorProfiles.retrieveState().then(setProfileState);
+            }
+        };
+
+        chrome.storage.onChanged.addListener(handleStorageChange);
+
+        return () => {
+            chrome.storage.onChanged.removeListener(handleStorageChange);
+        };
+    }, []);
+
+    return {
+        profileState,
+        activeProfile,
+        profileError,
+        selectProfile,
+        createProfile,
+        deleteProfile,
+        saveChainOverride,
+        importProfileFile,
+        exportActiveProfile,
+        testSelectorChain,
+        clearProfileError,
+    };
+}
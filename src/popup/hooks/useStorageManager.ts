@@ -1,12 +1,13 @@
 /**
  * Custom hook for managing Chrome storage operations
- * Provides reactive data access with loading and error states
+ * Provides reactive data access to one account's partition with loading and error states
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { ACStorageSchema } from '@shared/types';
 import { MESSAGE_ACTIONS, MessageResponse } from '@shared/message-types';
-import { DEFAULT_STORAGE_STATE, STORAGE_KEYS } from '@shared/constants';
+import { DEFAULT_STORAGE_STATE } from '@shared/constants';
+import { buildPartitionKey } from '@shared/storage-service';
 
 interface StorageManagerState {
     storageData: ACStorageSchema;
@@ -19,12 +20,14 @@ interface StorageManagerActions {
     removeContact: (contactId: string) => Promise<boolean>;
     removeDeal: (dealId: string) => Promise<boolean>;
     removeTask: (taskId: string) => Promise<boolean>;
+    removeAccount: (accountId: string) => Promise<boolean>;
+    removeActivity: (activityId: string) => Promise<boolean>;
     clearAllStoredData: () => Promise<boolean>;
 }
 
 type UseStorageManagerReturn = StorageManagerState & StorageManagerActions;
 
-export function useStorageManager(): UseStorageManagerReturn {
+export function useStorageManager(accountHost: string | null): UseStorageManagerReturn {
     const [storageData, setStorageData] = useState<ACStorageSchema>({
         ...DEFAULT_STORAGE_STATE,
     });
@@ -32,17 +35,25 @@ export function useStorageManager(): UseStorageManagerReturn {
     const [fetchError, setFetchError] = useState<string | null>(null);
 
     const refreshStorageData = useCallback(async () => {
+        // No account to show yet means nothing has been extracted anywhere
+        if (!accountHost) {
+            setStorageData({ ...DEFAULT_STORAGE_STATE });
+            setIsLoading(false);
+            return;
+        }
+
         setIsLoading(true);
         setFetchError(null);
 
         try {
             const response = await chrome.runtime.sendMessage({
                 action: MESSAGE_ACTIONS.GET_STORAGE_DATA,
+                accountHost,
                 timestamp: Date.now(),
             }) as MessageResponse<ACStorageSchema>;
 
             if (response.success && response.payload) {
-                setStorageData(response.payload);
+                setStorageData({ ...DEFAULT_STORAGE_STATE, ...response.payload });
             } else {
                 setFetchError(response.errorMessage ?? 'Failed to load data');
             }
@@ -51,15 +62,20 @@ export function useStorageManager(): UseStorageManagerReturn {
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [accountHost]);
 
     const removeRecord = useCallback(async (
-        entityType: 'contacts' | 'deals' | 'tasks',
+        entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities',
         recordId: string
     ): Promise<boolean> => {
+        if (!accountHost) {
+            return false;
+        }
+
         try {
             const response = await chrome.runtime.sendMessage({
                 action: MESSAGE_ACTIONS.DELETE_RECORD,
+                accountHost,
                 entityType,
                 recordId,
                 timestamp: Date.now(),
@@ -76,7 +92,7 @@ export function useStorageManager(): UseStorageManagerReturn {
             setFetchError(error instanceof Error ? error.message : 'Delete error');
             return false;
         }
-    }, [refreshStorageData]);
+    }, [accountHost, refreshStorageData]);
 
     const removeContact = useCallback(
         (contactId: string) => removeRecord('contacts', contactId),
@@ -93,10 +109,25 @@ export function useStorageManager(): UseStorageManagerReturn {
         [removeRecord]
     );
 
+    const removeAccount = useCallback(
+        (accountId: string) => removeRecord('accounts', accountId),
+        [removeRecord]
+    );
+
+    const removeActivity = useCallback(
+        (activityId: string) => removeRecord('activities', activityId),
+        [removeRecord]
+    );
+
     const clearAllStoredData = useCallback(async (): Promise<boolean> => {
+        if (!accountHost) {
+            return false;
+        }
+
         try {
             const response = await chrome.runtime.sendMessage({
                 action: MESSAGE_ACTIONS.CLEAR_ALL_DATA,
+                accountHost,
                 timestamp: Date.now(),
             }) as MessageResponse;
 
@@ -111,22 +142,26 @@ export function useStorageManager(): UseStorageManagerReturn {
             setFetchError(error instanceof Error ? error.message : 'Clear error');
             return false;
         }
-    }, [refreshStorageData]);
+    }, [accountHost, refreshStorageData]);
 
     useEffect(() => {
         refreshStorageData();
     }, [refreshStorageData]);
 
     useEffect(() => {
+        if (!accountHost) {
+            return;
+        }
+
+        const partitionKey = buildPartitionKey(accountHost);
         const handleStorageChange = (
             changes: { [key: string]: chrome.storage.StorageChange },
             namespace: string
         ) => {
-            if (namespace === 'local' && changes[STORAGE_KEYS.CRM_DATA]) {
-                const newData = changes[STORAGE_KEYS.CRM_DATA].newValue as ACStorageSchema;
-                if (newData) {
-                    setStorageData(newData);
-                }
+            if (namespace === 'local' && changes[partitionKey]) {
+                // A cleared account has its partition removed, which reads as an empty one
+                const newData = changes[partitionKey].newValue as ACStorageSchema | undefined;
+                setStorageData({ ...DEFAULT_STORAGE_STATE, ...newData });
             }
         };
 
@@ -135,7 +170,7 @@ export function useStorageManager(): UseStorageManagerReturn {
         return () => {
             chrome.storage.onChanged.removeListener(handleStorageChange);
         };
-    }, []);
+    }, [accountHost]);
 
     return {
         storageData,
@@ -145,6 +180,8 @@ export function useStorageManager(): UseStorageManagerReturn {
         removeContact,
         removeDeal,
         removeTask,
+        removeAccount,
+        removeActivity,
         clearAllStoredData,
     };
 }
@@ -0,0 +1,75 @@
+/**
+ * Custom hook for previewing what the active tab would extract
+ * Asks the content script which ActiveCampaign view is open
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { MESSAGE_ACTIONS, MessageResponse, ViewChangedMessage } from '@shared/message-types';
+import { ViewDetectionResult } from '@shared/types';
+
+interface ViewDetectionState {
+    viewResult: ViewDetectionResult | null;
+    detectionError: string | null;
+}
+
+interface ViewDetectionActions {
+    refreshViewDetection: () => Promise<void>;
+}
+
+type UseViewDetectionReturn = ViewDetectionState & ViewDetectionActions;
+
+export function useViewDetection(isExtracting: boolean): UseViewDetectionReturn {
+    const [viewResult, setViewResult] = useState<ViewDetectionResult | null>(null);
+    const [detectionError, setDetectionError] = useState<string | null>(null);
+
+    const refreshViewDetection = useCallback(async (): Promise<void> => {
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: MESSAGE_ACTIONS.CHECK_VIEW_TYPE,
+                timestamp: Date.now(),
+            }) as MessageResponse<ViewDetectionResult>;
+
+            if (response.success && response.payload) {
+                setViewResult(response.payload);
+                setDetectionError(null);
+                return;
+            }
+
+            setViewResult(null);
+            setDetectionError(response.errorMessage ?? 'Unable to detect the current page');
+
+        } catch (error) {
+            setViewResult(null);
+            setDetectionError(error instanceof Error ? error.message : 'Unable to detect the current page');
+        }
+    }, []);
+
+    // An extraction can change what the page shows, so the preview is re-read once it ends
+    useEffect(() => {
+        if (!isExtracting) {
+            refreshViewDetection();
+        }
+    }, [isExtracting, refreshViewDetection]);
+
+    useEffect(() => {
+        // Navigating inside ActiveCampaign while the popup is open updates the preview in place
+        const handleViewChanged = (message: { action?: string }, sender: chrome.runtime.MessageSender) => {
+            if (message.action === MESSAGE_ACTIONS.VIEW_CHANGED && sender.tab?.active) {
+                setViewResult((message as ViewChangedMessage).viewResult);
+                setDetectionError(null);
+            }
+        };
+
+        chrome.runtime.onMessage.addListener(handleViewChanged);
+
+        return () => {
+            chrome.runtime.onMessage.removeListener(handleViewChanged);
+        };
+    }, []);
+
+    return {
+        viewResult,
+        detectionError,
+        refreshViewDetection,
+    };
+}
@@ -4,17 +4,39 @@
  */
 
 export const STORAGE_KEYS = {
+    // Data from before per-account partitioning, moved into the partitions on update
     CRM_DATA: 'crm_extracted_data',
+    ACCOUNT_DATA_PREFIX: 'crm_extracted_data:',
     SYNC_LOCK: 'sync_lock_timestamp',
     USER_PREFERENCES: 'user_preferences',
+    ID_RECONCILIATION: 'id_reconciliation_done',
+    // One checkpoint per account and list, so runs in other tabs never overwrite each other
+    EXTRACTION_CHECKPOINT_PREFIX: 'extraction_checkpoint:',
+    RUN_HISTORY: 'extraction_run_history',
+    SELECTOR_PROFILES: 'selector_profiles',
+    // Kept in chrome.storage.session so a suspended service worker still knows which tab to cancel
+    EXTRACTING_TAB: 'extracting_tab_id',
 } as const;
 
 export const EXTRACTION_CONFIG = {
     ELEMENT_WAIT_TIMEOUT_MS: 5000,
     RETRY_ATTEMPTS: 3,
     RETRY_DELAY_MS: 1000,
-    PAGINATION_DELAY_MS: 500,
-    MUTATION_DEBOUNCE_MS: 300,
+    DOM_QUIET_WINDOW_MS: 300,
+    DOM_SETTLE_TIMEOUT_MS: 8000,
+    CHECKPOINT_MAX_AGE_MS: 24 * 60 * 60 * 1000,
+    TIMELINE_MAX_EXPANSIONS: 20,
+    BOARD_SCROLL_MAX_STEPS: 50,
+    RUN_HISTORY_LIMIT: 50,
+    RUN_TOUCHED_RECORDS_LIMIT: 500,
+} as const;
+
+export const DIAGNOSTICS_CONFIG = {
+    // Earlier runs of the same view averaged into the baseline fill rate
+    BASELINE_RUN_COUNT: 5,
+    // Fewer lookups than this say too little about a field to warn on
+    MIN_LOOKUPS_FOR_WARNING: 5,
+    FILL_RATE_DROP_THRESHOLD: 0.3,
 } as const;
 
 export const UI_CONFIG = {
@@ -30,6 +52,11 @@ export const ACTIVE_CAMPAIGN_PATHS = {
     DEALS: '/app/deals',
     TASKS: '/app/tasks',
     PIPELINE: '/app/deals/pipeline',
+    ACCOUNTS: '/app/accounts',
+    CONTACT_DETAIL_PATTERN: /\/app\/contacts\/(\d+)/,
+    DEAL_DETAIL_PATTERN: /\/app\/deals\/(\d+)/,
+    CALENDAR_SEGMENT: 'calendar',
+    SEGMENT_QUERY_PARAMETERS: ['segment', 'segmentid', 'segment_id', 'listid'],
 } as const;
 
 export const SELECTOR_CHAINS = {
@@ -77,6 +104,120 @@ export const SELECTOR_CHAINS = {
             '[class*="ownerName"]',
         ],
     },
+    activities: {
+        container: [
+            '[data-testid="activity-stream"]',
+            '.activity-timeline',
+            '#activity-feed',
+            '[class*="ActivityStream"]',
+            '[class*="Timeline"]',
+        ],
+        item: [
+            '[data-testid="activity-item"]',
+            '.activity-timeline-item',
+            '[data-activity-id]',
+            '[class*="ActivityItem"]',
+            '[class*="TimelineItem"]',
+        ],
+        body: [
+            '[data-testid="activity-body"]',
+            '.activity-content',
+            '.note-body',
+            '[class*="activityBody"]',
+        ],
+        author: [
+            '[data-testid="activity-author"]',
+            '.activity-author',
+            '.activity-user',
+            '[class*="authorName"]',
+        ],
+        timestamp: [
+            '[data-testid="activity-timestamp"]',
+            'time[datetime]',
+            '.activity-date',
+            '[class*="timestamp"]',
+        ],
+        loadMore: [
+            '[data-testid="activity-load-more"]',
+            '.activity-load-more',
+            'button[class*="loadMore"]',
+            'button[class*="showMore"]',
+        ],
+    },
+    contactDetail: {
+        container: [
+            '[data-testid="contact-profile"]',
+            '.contact-profile-container',
+            '#contact-detail-view',
+            '[class*="ContactProfile"]',
+        ],
+        name: [
+            '[data-testid="contact-profile-name"]',
+            '.contact-profile-name',
+            'h1.contact-name',
+            '[class*="profileName"]',
+        ],
+        emails: [
+            '[data-testid="contact-profile-email"]',
+            '.contact-profile-email',
+            '.contact-info a[href^="mailto:"]',
+            '[class*="profileEmail"]',
+        ],
+        phones: [
+            '[data-testid="contact-profile-phone"]',
+            '.contact-profile-phone',
+            '.contact-info a[href^="tel:"]',
+            '[class*="profilePhone"]',
+        ],
+        address: [
+            '[data-testid="contact-address"]',
+            '.contact-address',
+            'address',
+            '[class*="contactAddress"]',
+        ],
+        company: [
+            '[data-testid="contact-account"]',
+            '.contact-account-name',
+            'a[href*="/app/accounts/"]',
+            '[class*="accountName"]',
+        ],
+        owner: [
+            '[data-testid="contact-profile-owner"]',
+            '.contact-owner',
+            '.contact-profile-owner',
+            '[class*="ownerName"]',
+        ],
+        lists: [
+            '[data-testid="contact-lists"] li',
+            '.contact-lists .list-name',
+            '.contact-list-subscriptions li',
+            '[class*="listSubscription"]',
+        ],
+        tags: [
+            '[data-testid="contact-profile-tags"] .tag',
+            '.contact-tags .tag-badge',
+            '.tag-pill',
+            '[class*="tagChip"]',
+        ],
+        field: [
+            '[data-testid="contact-field"]',
+            '.contact-field-row',
+            '.custom-field',
+            '[class*="FieldRow"]',
+        ],
+        fieldLabel: [
+            '[data-testid="field-label"]',
+            '.field-label',
+            'label',
+            '[class*="fieldLabel"]',
+        ],
+        fieldValue: [
+            '[data-testid="field-value"]',
+            '.field-value',
+            '.field-content',
+            '[class*="fieldValue"]',
+        ],
+    },
     deals: {
         container: [
             '[data-testid="deals-board"]',
@@ -126,6 +267,48 @@ export const SELECTOR_CHAINS = {
             '.deal-assigned-user',
             '[class*="dealOwner"]',
         ],
+        status: [
+            '[data-testid="deal-status"]',
+            '.deal-status-badge',
+            '.deal-status',
+            '[class*="dealStatus"]',
+        ],
+        closeDate: [
+            '[data-testid="deal-close-date"]',
+            '.deal-close-date',
+            '.expected-close-date',
+            '[class*="closeDate"]',
+        ],
+        probability: [
+            '[data-testid="deal-probability"]',
+            '.deal-probability',
+            '.win-probability',
+            '[class*="probability"]',
+        ],
+        createdDate: [
+            '[data-testid="deal-created-date"]',
+            '.deal-created-date',
+            '.deal-create-date',
+            '[class*="createdDate"]',
+        ],
+        field: [
+            '[data-testid="deal-field"]',
+            '.deal-custom-field',
+            '.custom-field',
+            '[class*="FieldRow"]',
+        ],
+        fieldLabel: [
+            '[data-testid="field-label"]',
+            '.field-label',
+            'label',
+            '[class*="fieldLabel"]',
+        ],
+        fieldValue: [
+            '[data-testid="field-value"]',
+            '.field-value',
+            '.field-content',
+            '[class*="fieldValue"]',
+        ],
     },
     tasks: {
         container: [
@@ -171,6 +354,80 @@ export const SELECTOR_CHAINS = {
             '[class*="linkedRecord"]',
         ],
     },
+    accounts: {
+        container: [
+            '[data-testid="accounts-list"]',
+            '.accounts-list-container',
+            '#accounts-list-view',
+            '[class*="AccountsList"]',
+        ],
+        row: [
+            '[data-testid="account-row"]',
+            '.account-list-item',
+            'tr[data-account-id]',
+            '[class*="AccountRow"]',
+        ],
+        name: [
+            '[data-testid="account-name"]',
+            '.account-name-cell a',
+            'a[href*="/app/accounts/"]',
+            '[class*="accountName"]',
+        ],
+        url: [
+            '[data-testid="account-url"]',
+            '.account-url-cell a',
+            'a[target="_blank"][href^="http"]',
+            '[class*="accountUrl"]',
+        ],
+        owner: [
+            '[data-testid="account-owner"]',
+            '.account-owner-cell',
+            '.assigned-user',
+            '[class*="ownerName"]',
+        ],
+        contactCount: [
+            '[data-testid="account-contact-count"]',
+            '.account-contacts-cell',
+            '.contact-count',
+            '[class*="contactCount"]',
+        ],
+        dealCount: [
+            '[data-testid="account-deal-count"]',
+            '.account-deals-cell',
+            '.deal-count',
+            '[class*="dealCount"]',
+        ],
+    },
+    viewContext: {
+        pipelineName: [
+            '[data-testid="pipeline-name"]',
+            '.pipeline-header-title',
+            '[class*="pipeline-selector"]',
+            '[class*="PipelineSelector"]',
+            'h1',
+            '.page-title',
+            'button[class*="pipeline"]',
+        ],
+        activeFilter: [
+            '[data-testid="active-segment"]',
+            '[data-testid="active-filter"]',
+            '[class*="segmentName"]',
+            '[class*="SegmentName"]',
+            '[class*="filterChip"]',
+        ],
+        totalCount: [
+            '[data-testid="total-count"]',
+            '[class*="totalCount"]',
+            '[class*="resultsCount"]',
+            '.record-count',
+        ],
+        calendar: [
+            '[data-testid="tasks-calendar"]',
+            '[class*="TasksCalendar"]',
+            '.fc-view-harness',
+            '[role="grid"][class*="calendar"]',
+        ],
+    },
     pagination: {
         nextButton: [
             '[data-testid="next-page"]',
@@ -184,6 +441,25 @@ export const SELECTOR_CHAINS = {
             '.page-count',
             '[class*="pageIndicator"]',
         ],
+        loadMoreButton: [
+            '[data-testid="load-more"]',
+            'button[class*="loadMore"]',
+            'button[class*="load-more"]',
+            'button[aria-label="Load more"]',
+        ],
+        rowSet: [
+            'tbody tr',
+            '[role="row"]',
+            '[data-testid*="row"]',
+            '[class*="deal-card"]',
+        ],
+        scrollContainer: [
+            '[data-testid="infinite-scroll"]',
+            '[class*="infiniteScroll"]',
+            '[class*="virtualList"]',
+            '[role="grid"]',
+            'table',
+        ],
     },
 } as const;
 
@@ -200,6 +476,123 @@ export const TASK_TYPE_MAPPING: Record<string, 'call' | 'email' | 'meeting' | 't
     reminder: 'todo',
 };
 
+// Checked in order, so the more specific phrases come before generic words like "email"
+export const ACTIVITY_TYPE_KEYWORDS: Array<[string, 'note' | 'email' | 'stage_change' | 'task_completed']> = [
+    ['completed task', 'task_completed'],
+    ['task completed', 'task_completed'],
+    ['marked complete', 'task_completed'],
+    ['stage', 'stage_change'],
+    ['moved to', 'stage_change'],
+    ['moved from', 'stage_change'],
+    ['note', 'note'],
+    ['email', 'email'],
+    ['sent', 'email'],
+    ['campaign', 'email'],
+];
+
+export const TASK_PRIORITY_MAPPING: Record<string, 'low' | 'medium' | 'high'> = {
+    low: 'low',
+    normal: 'medium',
+    medium: 'medium',
+    high: 'high',
+    urgent: 'high',
+    critical: 'high',
+};
+
+// Offsets in minutes for the abbreviations ActiveCampaign prints next to due times
+export const TIMEZONE_ABBREVIATION_OFFSETS: Record<string, number> = {
+    UTC: 0,
+    GMT: 0,
+    BST: 60,
+    CET: 60,
+    CEST: 120,
+    IST: 330,
+    EST: -300,
+    EDT: -240,
+    CST: -360,
+    CDT: -300,
+    MST: -420,
+    MDT: -360,
+    PST: -480,
+    PDT: -420,
+};
+
+export const NATIVE_ID_SOURCES: Record<string, { attributes: readonly string[]; hrefPattern: RegExp }> = {
+    contact: {
+        attributes: ['data-contact-id'],
+        hrefPattern: /\/contacts\/(\d+)/,
+    },
+    deal: {
+        attributes: ['data-deal-id'],
+        hrefPattern: /\/deals\/(\d+)/,
+    },
+    task: {
+        attributes: ['data-task-id'],
+        hrefPattern: /\/tasks\/(\d+)/,
+    },
+    account: {
+        attributes: ['data-account-id'],
+        hrefPattern: /\/accounts\/(\d+)/,
+    },
+    activity: {
+        attributes: ['data-activity-id', 'data-note-id'],
+        hrefPattern: /\/notes\/(\d+)/,
+    },
+};
+
+// Records keyed on an ActiveCampaign ID look like "deal-456"; hashed fallbacks use an underscore
+export const NATIVE_RECORD_ID_PATTERN = /^[a-z]+-\d+$/;
+
+export const TABLE_HEADER_SELECTORS = [
+    'table thead th',
+    'table tr th',
+    '[role="columnheader"]',
+] as const;
+
+export const COLUMN_SYNONYMS = {
+    contacts: {
+        name: ['name', 'full name', 'contact', 'contact name'],
+        email: ['email', 'email address', 'e-mail'],
+        phone: ['phone', 'phone number', 'mobile', 'telephone'],
+        tags: ['tags', 'tag', 'labels'],
+        owner: ['owner', 'contact owner', 'assigned to', 'assignee'],
+        company: ['account', 'company', 'organization', 'account name'],
+    },
+    deals: {
+        title: ['title', 'deal', 'deal title', 'name', 'deal name'],
+        value: ['value', 'amount', 'deal value', 'worth'],
+        pipeline: ['pipeline'],
+        stage: ['stage', 'deal stage'],
+        primaryContact: ['contact', 'primary contact', 'person', 'contact name'],
+        owner: ['owner', 'deal owner', 'assigned to', 'rep'],
+        account: ['account', 'company', 'organization', 'account name'],
+        status: ['status', 'deal status'],
+        closeDate: ['close date', 'expected close', 'expected close date', 'forecasted close date', 'close'],
+        probability: ['probability', 'win probability', 'win %'],
+        createdDate: ['created', 'created date', 'date created', 'created on'],
+    },
+    tasks: {
+        title: ['title', 'task', 'task title', 'subject', 'name'],
+        type: ['type', 'task type', 'category'],
+        dueDate: ['due', 'due date', 'date', 'due on'],
+        assignee: ['assignee', 'assigned to', 'owner', 'user'],
+        linkedEntity: ['related to', 'contact', 'deal', 'linked to', 'regarding'],
+        status: ['status', 'state', 'completed', 'done'],
+        dueTime: ['due time', 'time'],
+        completedAt: ['completed on', 'completed at', 'date completed', 'completion date'],
+        priority: ['priority', 'importance'],
+        duration: ['duration', 'length'],
+        description: ['description', 'details', 'notes', 'note'],
+    },
+    accounts: {
+        name: ['name', 'account', 'account name', 'company'],
+        url: ['url', 'website', 'domain', 'account url'],
+        owner: ['owner', 'account owner', 'assigned to'],
+        contactCount: ['contacts', 'contact count', '# contacts'],
+        dealCount: ['deals', 'deal count', '# deals'],
+    },
+} as const;
+
 export const CURRENCY_SYMBOLS: Record<string, string> = {
     USD: '$',
     EUR: '\u20AC',
@@ -213,12 +606,85 @@ export const DEFAULT_STORAGE_STATE: {
     contacts: never[];
     deals: never[];
     tasks: never[];
+    accounts: never[];
+    activities: never[];
     lastSync: number;
     syncInProgress: boolean;
 } = {
     contacts: [],
     deals: [],
     tasks: [],
+    accounts: [],
+    activities: [],
     lastSync: 0,
     syncInProgress: false,
 };
+
+export const DEFAULT_USER_PREFERENCES: {
+    numberLocale: string;
+    maxPages: number;
+    liveCaptureViews: string[];
+    liveCaptureThrottleMs: number;
+} = {
+    numberLocale: 'auto',
+    maxPages: 10,
+    liveCaptureViews: [],
+    liveCaptureThrottleMs: 5000,
+};
+
+export const NUMBER_LOCALE_OPTIONS: Array<{ value: string; label: string }> = [
+    { value: 'auto', label: 'Detect automatically' },
+    { value: 'en-US', label: '1,234.56 (US / UK)' },
+    { value: 'de-DE', label: '1.234,56 (Europe)' },
+    { value: 'en-IN', label: '1,23,456.78 (India)' },
+];
+
+export const MAX_PAGES_OPTIONS: number[] = [5, 10, 25, 50, 100];
+
+// Detail pages hold a single record, so live capture is offered on list-style views only
+export const LIVE_CAPTURE_VIEWS: string[] = [
+    'pipeline_board',
+    'deals_list',
+    'contact_list',
+    'segment_list',
+    'tasks_list',
+    'tasks_calendar',
+    'accounts_list',
+];
+
+export const LIVE_CAPTURE_THROTTLE_OPTIONS: Array<{ value: number; label: string }> = [
+    { value: 2000, label: 'At most every 2 seconds' },
+    { value: 5000, label: 'At most every 5 seconds' },
+    { value: 15000, label: 'At most every 15 seconds' },
+    { value: 60000, label: 'At most once a minute' },
+];
+
+export const SUB_VIEW_LABELS: Record<string, string> = {
+    pipeline_board: 'Pipeline board',
+    deals_list: 'Deals list',
+    deal_detail: 'Deal detail',
+    contact_list: 'Contact list',
+    contact_detail: 'Contact detail',
+    segment_list: 'Segment list',
+    tasks_list: 'Tasks list',
+    tasks_calendar: 'Tasks calendar',
+    accounts_list: 'Accounts list',
+    unknown: 'Unrecognized page',
+};
+
+// Short enough for the toolbar badge, which fits about four characters
+export const SUB_VIEW_BADGE_TEXT: Record<string, string> = {
+    pipeline_board: 'BRD',
+    deals_list: 'DEAL',
+    deal_detail: 'DEAL',
+    contact_list: 'CON',
+    contact_detail: 'CON',
+    segment_list: 'SEG',
+    tasks_list: 'TASK',
+    tasks_calendar: 'CAL',
+    accounts_list: 'ACC',
+    unknown: '',
+};
+
+export const ROUTE_CHANGE_EVENT = 'crm-extractor:route-change';
+
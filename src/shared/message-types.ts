@@ -3,18 +3,26 @@
  * Defines the contract for chrome.runtime message passing
  */
 
+import { ExtractionProgress, RowChangeSummary, ViewDetectionResult } from './types';
+
 export const MESSAGE_ACTIONS = {
     TRIGGER_EXTRACTION: 'TRIGGER_EXTRACTION',
     EXTRACTION_STARTED: 'EXTRACTION_STARTED',
     EXTRACTION_PROGRESS: 'EXTRACTION_PROGRESS',
     EXTRACTION_COMPLETE: 'EXTRACTION_COMPLETE',
     EXTRACTION_FAILED: 'EXTRACTION_FAILED',
+    CANCEL_EXTRACTION: 'CANCEL_EXTRACTION',
     GET_STORAGE_DATA: 'GET_STORAGE_DATA',
+    LIST_ACCOUNTS: 'LIST_ACCOUNTS',
     DELETE_RECORD: 'DELETE_RECORD',
     CLEAR_ALL_DATA: 'CLEAR_ALL_DATA',
     EXPORT_DATA: 'EXPORT_DATA',
     CHECK_VIEW_TYPE: 'CHECK_VIEW_TYPE',
     PING_CONTENT_SCRIPT: 'PING_CONTENT_SCRIPT',
+    VIEW_CHANGED: 'VIEW_CHANGED',
+    DATA_CHANGED: 'DATA_CHANGED',
+    TEST_SELECTOR_CHAIN: 'TEST_SELECTOR_CHAIN',
+    INSTALL_HISTORY_HOOK: 'INSTALL_HISTORY_HOOK',
 } as const;
 
 export type MessageAction = typeof MESSAGE_ACTIONS[keyof typeof MESSAGE_ACTIONS];
@@ -36,14 +44,12 @@ export interface ExtractionStartedMessage extends BaseMessage {
 
 export interface ExtractionProgressMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.EXTRACTION_PROGRESS;
-    phase: string;
-    progressPercent: number;
-    statusMessage: string;
+    progress: ExtractionProgress;
 }
 
 export interface ExtractionCompleteMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.EXTRACTION_COMPLETE;
-    entityType: 'contacts' | 'deals' | 'tasks';
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities';
     extractedCount: number;
 }
 
@@ -53,24 +59,36 @@ export interface ExtractionFailedMessage extends BaseMessage {
     errorCode?: string;
 }
 
+export interface CancelExtractionMessage extends BaseMessage {
+    action: typeof MESSAGE_ACTIONS.CANCEL_EXTRACTION;
+    keepPartialResults: boolean;
+}
+
 export interface GetStorageDataMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.GET_STORAGE_DATA;
+    accountHost: string;
+}
+
+export interface ListAccountsMessage extends BaseMessage {
+    action: typeof MESSAGE_ACTIONS.LIST_ACCOUNTS;
 }
 
 export interface DeleteRecordMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.DELETE_RECORD;
-    entityType: 'contacts' | 'deals' | 'tasks';
+    accountHost: string;
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities';
     recordId: string;
 }
 
 export interface ClearAllDataMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.CLEAR_ALL_DATA;
+    accountHost: string;
 }
 
 export interface ExportDataMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.EXPORT_DATA;
     format: 'csv' | 'json';
-    entityTypes: ('contacts' | 'deals' | 'tasks')[];
+    entityTypes: ('contacts' | 'deals' | 'tasks' | 'accounts' | 'activities')[];
 }
 
 export interface CheckViewTypeMessage extends BaseMessage {
@@ -81,18 +99,45 @@ export interface PingContentScriptMessage extends BaseMessage {
     action: typeof MESSAGE_ACTIONS.PING_CONTENT_SCRIPT;
 }
 
+export interface ViewChangedMessage extends BaseMessage {
+    action: typeof MESSAGE_ACTIONS.VIEW_CHANGED;
+    viewResult: ViewDetectionResult;
+}
+
+export interface DataChangedMessage extends BaseMessage, RowChangeSummary {
+    action: typeof MESSAGE_ACTIONS.DATA_CHANGED;
+    urlPath: string;
+    // Live capture already saved the rows, so there is nothing left to prompt for
+    isCapturedLive: boolean;
+}
+
+export interface TestSelectorChainMessage extends BaseMessage {
+    action: typeof MESSAGE_ACTIONS.TEST_SELECTOR_CHAIN;
+    selectors: string[];
+}
+
+export interface InstallHistoryHookMessage extends BaseMessage {
+    action: typeof MESSAGE_ACTIONS.INSTALL_HISTORY_HOOK;
+}
+
 export type ExtensionMessage =
     | TriggerExtractionMessage
     | ExtractionStartedMessage
     | ExtractionProgressMessage
     | ExtractionCompleteMessage
     | ExtractionFailedMessage
+    | CancelExtractionMessage
     | GetStorageDataMessage
+    | ListAccountsMessage
     | DeleteRecordMessage
     | ClearAllDataMessage
     | ExportDataMessage
     | CheckViewTypeMessage
-    | PingContentScriptMessage;
+    | PingContentScriptMessage
+    | ViewChangedMessage
+    | DataChangedMessage
+    | TestSelectorChainMessage
+    | InstallHistoryHookMessage;
 
 export interface MessageResponse<T = unknown> {
     success: boolean;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocalizedNumber } from './number-parser';
+
+describe('parseLocalizedNumber', () => {
+    it('reads US grouping with a decimal point', () => {
+        expect(parseLocalizedNumber('$1,234,567.89')).toBe(1234567.89);
+    });
+
+    it('reads European grouping with a decimal comma', () => {
+        expect(parseLocalizedNumber('1.234,56 €')).toBe(1234.56);
+    });
+
+    it('reads Swiss apostrophe grouping', () => {
+        expect(parseLocalizedNumber("CHF 1'234'567.50")).toBe(1234567.5);
+    });
+
+    it('reads Indian lakh grouping and suffixes', () => {
+        expect(parseLocalizedNumber('₹1,50,000')).toBe(150000);
+        expect(parseLocalizedNumber('1.5L')).toBe(150000);
+        expect(parseLocalizedNumber('2Cr')).toBe(20000000);
+    });
+
+    it('reads k, M and B suffixes', () => {
+        expect(parseLocalizedNumber('$15k')).toBe(15000);
+        expect(parseLocalizedNumber('2.5M')).toBe(2500000);
+        expect(parseLocalizedNumber('1B')).toBe(1000000000);
+    });
+
+    it('reads a lone separator before three digits by its kind in auto mode', () => {
+        // A comma there is grouping, but a dot is kept as a decimal point
+        expect(parseLocalizedNumber('€1,234')).toBe(1234);
+        expect(parseLocalizedNumber('€1.234')).toBe(1.234);
+    });
+
+    it('resolves the lone dot as grouping once the account locale is known', () => {
+        expect(parseLocalizedNumber('€1.234', 'de-DE')).toBe(1234);
+        expect(parseLocalizedNumber('€1.234', 'en-US')).toBe(1.234);
+    });
+
+    it('reads negative and parenthesised values', () => {
+        expect(parseLocalizedNumber('-$1,200')).toBe(-1200);
+        expect(parseLocalizedNumber('(1,200.50)')).toBe(-1200.5);
+    });
+
+    it('reads values followed by an ISO currency code', () => {
+        expect(parseLocalizedNumber('2,500.75 USD')).toBe(2500.75);
+        expect(parseLocalizedNumber('3.000,00 EUR')).toBe(3000);
+    });
+
+    it('honours an explicit account locale', () => {
+        expect(parseLocalizedNumber('1,5', 'de-DE')).toBe(1.5);
+    });
+});
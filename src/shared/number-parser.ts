@@ -0,0 +1,119 @@
+/**
+ * Locale-aware number parsing for values scraped from ActiveCampaign
+ * Understands US, European and Indian grouping plus k/M/B/L/Cr suffixes
+ */
+
+export const AUTO_NUMBER_LOCALE = 'auto';
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+    k: 1e3,
+    m: 1e6,
+    mn: 1e6,
+    mm: 1e6,
+    b: 1e9,
+    bn: 1e9,
+    l: 1e5,
+    lac: 1e5,
+    lakh: 1e5,
+    lakhs: 1e5,
+    cr: 1e7,
+    crore: 1e7,
+    crores: 1e7,
+};
+
+export const NUMERIC_SUFFIX_PATTERN = '(?:crores?|cr|lakhs?|lac|mn|mm|bn|[kmbl])(?![a-z])';
+
+// Spaces and apostrophes only count as grouping when a full three-digit group follows: "1 234,56"
+const NUMBER_TOKEN_REGEX = new RegExp(
+    `(\\d(?:[\\d.,]|[\\s\\u00A0\\u202F'](?=\\d{3}(?!\\d)))*)\\s*(${NUMERIC_SUFFIX_PATTERN})?`,
+    'i'
+);
+
+function resolveDecimalSeparator(locale: string): string | null {
+    if (locale === AUTO_NUMBER_LOCALE) {
+        return null;
+    }
+
+    try {
+        const decimalPart = new Intl.NumberFormat(locale)
+            .formatToParts(1.1)
+            .find(part => part.type === 'decimal');
+        return decimalPart?.value ?? '.';
+    } catch {
+        return null;
+    }
+}
+
+function inferDecimalSeparator(digits: string): string | null {
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+
+    // With both present, whichever comes last separates the decimals: "1.234,56" / "1,234.56"
+    if (lastComma !== -1 && lastDot !== -1) {
+        return lastComma > lastDot ? ',' : '.';
+    }
+
+    const separator = lastComma !== -1 ? ',' : lastDot !== -1 ? '.' : null;
+    if (!separator) {
+        return null;
+    }
+
+    const occurrences = digits.split(separator).length - 1;
+    if (occurrences > 1) {
+        // Repeated separators are grouping: "1,50,000" or "1.234.567"
+        return null;
+    }
+
+    const trailingDigits = digits.length - digits.lastIndexOf(separator) - 1;
+
+    // A single comma before exactly three digits reads as thousands: "1,200"
+    if (separator === ',' && trailingDigits === 3) {
+        return null;
+    }
+
+    return separator;
+}
+
+function isNegative(rawValue: string): boolean {
+    const trimmed = rawValue.trim();
+    const leadingPart = trimmed.slice(0, Math.max(0, trimmed.search(/\d/)));
+
+    // "-$1,200", "$-1,200", "(1,200)" and "1,200-" are all negative
+    return /[-−]/.test(leadingPart) ||
+        /^\(.*\)$/.test(trimmed) ||
+        /\d\s*[-−]$/.test(trimmed);
+}
+
+export function parseLocalizedNumber(
+    rawValue: string,
+    locale: string = AUTO_NUMBER_LOCALE
+): number {
+    const tokenMatch = rawValue.match(NUMBER_TOKEN_REGEX);
+    if (!tokenMatch) {
+        return 0;
+    }
+
+    const digits = tokenMatch[1].replace(/[\s\u00A0\u202F']/g, '');
+    const suffix = tokenMatch[2]?.toLowerCase() ?? '';
+
+    const decimalSeparator = resolveDecimalSeparator(locale) ?? inferDecimalSeparator(digits);
+    const groupingPattern = decimalSeparator === ',' ? /\./g : /,/g;
+
+    let normalized = digits.replace(groupingPattern, '');
+    if (decimalSeparator === ',') {
+        normalized = normalized.replace(',', '.');
+    } else if (decimalSeparator === null) {
+        normalized = normalized.replace(/[.,]/g, '');
+    }
+
+    const parsedNumber = parseFloat(normalized);
+    if (isNaN(parsedNumber)) {
+        return 0;
+    }
+
+    const multiplier = SUFFIX_MULTIPLIERS[suffix] ?? 1;
+    const signedValue = parsedNumber * multiplier * (isNegative(rawValue) ? -1 : 1);
+
+    // Suffix multiplication can leave float noise, e.g. 1.1 * 1e5
+    return Math.round(signedValue * 1e6) / 1e6;
+}
@@ -0,0 +1,53 @@
+/**
+ * Preferences service for user-configurable extraction settings
+ * Shared by the popup (editing) and the content script (reading)
+ */
+
+import { ACUserPreferences, StorageOperationResult } from './types';
+import { STORAGE_KEYS, DEFAULT_USER_PREFERENCES } from './constants';
+
+class UserPreferencesStore {
+    async retrievePreferences(): Promise<ACUserPreferences> {
+        try {
+            const storageResult = await chrome.storage.local.get(STORAGE_KEYS.USER_PREFERENCES);
+            const storedPreferences = storageResult[STORAGE_KEYS.USER_PREFERENCES] as Partial<ACUserPreferences> | undefined;
+
+            return {
+                ...DEFAULT_USER_PREFERENCES,
+                ...storedPreferences,
+            };
+        } catch {
+            return { ...DEFAULT_USER_PREFERENCES };
+        }
+    }
+
+    async updatePreferences(
+        changes: Partial<ACUserPreferences>
+    ): Promise<StorageOperationResult<ACUserPreferences>> {
+        try {
+            const currentPreferences = await this.retrievePreferences();
+            const updatedPreferences: ACUserPreferences = {
+                ...currentPreferences,
+                ...changes,
+            };
+
+            await chrome.storage.local.set({
+                [STORAGE_KEYS.USER_PREFERENCES]: updatedPreferences,
+            });
+
+            return {
+                success: true,
+                payload: updatedPreferences,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Failed to save preferences',
+            };
+        }
+    }
+}
+
+export const preferencesStore = new UserPreferencesStore();
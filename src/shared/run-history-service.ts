@@ -0,0 +1,73 @@
+/**
+ * Run history service for the log of past extraction runs
+ * Written by the content script when a run ends and read by the popup's History tab
+ */
+
+import { ExtractionRunEntry, StorageOperationResult } from './types';
+import { STORAGE_KEYS, EXTRACTION_CONFIG } from './constants';
+
+class RunHistoryStore {
+    async retrieveRuns(accountHost: string): Promise<ExtractionRunEntry[]> {
+        const allRuns = await this.retrieveAllRuns();
+        return allRuns.filter(run => run.accountHost === accountHost.toLowerCase());
+    }
+
+    async appendRun(runEntry: ExtractionRunEntry): Promise<StorageOperationResult<void>> {
+        try {
+            const allRuns = await this.retrieveAllRuns();
+
+            // Newest first, trimmed so the log cannot grow without bound
+            const updatedRuns = [runEntry, ...allRuns].slice(0, EXTRACTION_CONFIG.RUN_HISTORY_LIMIT);
+
+            await chrome.storage.local.set({
+                [STORAGE_KEYS.RUN_HISTORY]: updatedRuns,
+            });
+
+            return {
+                success: true,
+                payload: undefined,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Failed to save run history',
+            };
+        }
+    }
+
+    async clearRuns(accountHost: string): Promise<StorageOperationResult<void>> {
+        try {
+            const allRuns = await this.retrieveAllRuns();
+
+            await chrome.storage.local.set({
+                [STORAGE_KEYS.RUN_HISTORY]: allRuns.filter(run => run.accountHost !== accountHost.toLowerCase()),
+            });
+
+            return {
+                success: true,
+                payload: undefined,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Failed to clear run history',
+            };
+        }
+    }
+
+    private async retrieveAllRuns(): Promise<ExtractionRunEntry[]> {
+        try {
+            const storageResult = await chrome.storage.local.get(STORAGE_KEYS.RUN_HISTORY);
+            const storedRuns = storageResult[STORAGE_KEYS.RUN_HISTORY] as ExtractionRunEntry[] | undefined;
+            return Array.isArray(storedRuns) ? storedRuns : [];
+        } catch {
+            return [];
+        }
+    }
+}
+
+export const runHistoryStore = new RunHistoryStore();
@@ -0,0 +1,299 @@
+/**
+ * Selector profile service for user overrides of the built-in selector chains
+ * The popup edits profiles; the content script resolves every chain through the active one
+ */
+
+import { SelectorProfile, SelectorProfileState, StorageOperationResult } from './types';
+import { STORAGE_KEYS, SELECTOR_CHAINS } from './constants';
+
+export const SELECTOR_PROFILE_FORMAT_VERSION = 1;
+
+const PROFILE_NAME_MAX_LENGTH = 80;
+
+export interface SelectorProfileFile {
+    formatVersion: number;
+    profileName: string;
+    overrides: Record<string, string[]>;
+}
+
+function collectChainPaths(
+    chainGroup: Record<string, unknown>,
+    pathPrefix: string,
+    chainsByPath: Map<string, readonly string[]>
+): Map<string, readonly string[]> {
+    for (const [chainName, chainValue] of Object.entries(chainGroup)) {
+        const chainPath = pathPrefix ? `${pathPrefix}.${chainName}` : chainName;
+        if (Array.isArray(chainValue)) {
+            chainsByPath.set(chainPath, chainValue);
+        } else if (chainValue && typeof chainValue === 'object') {
+            collectChainPaths(chainValue as Record<string, unknown>, chainPath, chainsByPath);
+        }
+    }
+    return chainsByPath;
+}
+
+const DEFAULT_CHAINS_BY_PATH = collectChainPaths(SELECTOR_CHAINS, '', new Map());
+
+// Callers pass the chain arrays themselves, so the array identity names the chain
+const CHAIN_PATHS_BY_CHAIN = new Map<readonly string[], string>(
+    Array.from(DEFAULT_CHAINS_BY_PATH, ([chainPath, chain]) => [chain, chainPath])
+);
+
+export const SELECTOR_CHAIN_PATHS: string[] = Array.from(DEFAULT_CHAINS_BY_PATH.keys());
+
+/**
+ * JSON schema of an exported profile file, kept in step with validateProfileFile
+ */
+export const SELECTOR_PROFILE_SCHEMA = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'CRM Extractor selector profile',
+    type: 'object',
+    required: ['formatVersion', 'profileName', 'overrides'],
+    additionalProperties: false,
+    properties: {
+        formatVersion: { const: SELECTOR_PROFILE_FORMAT_VERSION },
+        profileName: { type: 'string', minLength: 1, maxLength: PROFILE_NAME_MAX_LENGTH },
+        overrides: {
+            type: 'object',
+            propertyNames: { enum: SELECTOR_CHAIN_PATHS },
+            additionalProperties: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', minLength: 1 },
+            },
+        },
+    },
+} as const;
+
+export function findChainPath(chain: readonly string[]): string | null {
+    return CHAIN_PATHS_BY_CHAIN.get(chain) ?? null;
+}
+
+export function readDefaultChain(chainPath: string): readonly string[] {
+    return DEFAULT_CHAINS_BY_PATH.get(chainPath) ?? [];
+}
+
+export function isValidSelector(selector: string): boolean {
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function validateProfileFile(rawFile: unknown): { profileFile: SelectorProfileFile | null; validationErrors: string[] } {
+    const validationErrors: string[] = [];
+
+    if (!rawFile || typeof rawFile !== 'object' || Array.isArray(rawFile)) {
+        return { profileFile: null, validationErrors: ['Profile must be a JSON object'] };
+    }
+
+    const candidate = rawFile as Record<string, unknown>;
+
+    for (const propertyName of Object.keys(candidate)) {
+        if (!(propertyName in SELECTOR_PROFILE_SCHEMA.properties)) {
+            validationErrors.push(`Unknown property "${propertyName}"`);
+        }
+    }
+
+    if (candidate.formatVersion !== SELECTOR_PROFILE_FORMAT_VERSION) {
+        validationErrors.push(`formatVersion must be ${SELECTOR_PROFILE_FORMAT_VERSION}`);
+    }
+
+    const profileName = typeof candidate.profileName === 'string' ? candidate.profileName.trim() : '';
+    if (profileName.length === 0 || profileName.length > PROFILE_NAME_MAX_LENGTH) {
+        validationErrors.push(`profileName must be 1 to ${PROFILE_NAME_MAX_LENGTH} characters`);
+    }
+
+    const rawOverrides = candidate.overrides;
+    if (!rawOverrides || typeof rawOverrides !== 'object' || Array.isArray(rawOverrides)) {
+        validationErrors.push('overrides must be an object of chain paths to selector lists');
+    } else {
+        for (const [chainPath, selectors] of Object.entries(rawOverrides as Record<string, unknown>)) {
+            if (!DEFAULT_CHAINS_BY_PATH.has(chainPath)) {
+                validationErrors.push(`Unknown selector chain "${chainPath}"`);
+                continue;
+            }
+            if (!Array.isArray(selectors) || selectors.length === 0) {
+                validationErrors.push(`${chainPath} must be a non-empty list of selectors`);
+                continue;
+            }
+            for (const selector of selectors) {
+                if (typeof selector !== 'string' || selector.trim().length === 0) {
+                    validationErrors.push(`${chainPath} contains an empty or non-text selector`);
+                } else if (!isValidSelector(selector)) {
+                    validationErrors.push(`${chainPath} has an invalid selector: ${selector}`);
+                }
+            }
+        }
+    }
+
+    if (validationErrors.length > 0) {
+        return { profileFile: null, validationErrors };
+    }
+
+    return {
+        profileFile: {
+            formatVersion: SELECTOR_PROFILE_FORMAT_VERSION,
+            profileName,
+            overrides: rawOverrides as Record<string, string[]>,
+        },
+        validationErrors,
+    };
+}
+
+class SelectorProfileStore {
+    private activeOverrides = new Map<string, readonly string[]>();
+
+    /**
+     * Returns the active profile's selectors for a built-in chain, or the chain itself
+     */
+    resolve(chain: readonly string[]): readonly string[] {
+        const chainPath = findChainPath(chain);
+        return (chainPath && this.activeOverrides.get(chainPath)) || chain;
+    }
+
+    async loadActiveOverrides(): Promise<void> {
+        const profileState = await this.retrieveState();
+        const activeProfile = profileState.profiles
+            .find(profile => profile.profileId === profileState.activeProfileId);
+
+        this.activeOverrides = new Map(Object.entries(activeProfile?.overrides ?? {}));
+    }
+
+    watchActiveProfile(onProfileChange: () => void): void {
+        chrome.storage.onChanged.addListener((changes, namespace) => {
+            if (namespace === 'local' && changes[STORAGE_KEYS.SELECTOR_PROFILES]) {
+                this.loadActiveOverrides().then(onProfileChange);
+            }
+        });
+
+        this.loadActiveOverrides().then(onProfileChange);
+    }
+
+    async retrieveState(): Promise<SelectorProfileState> {
+        try {
+            const storageResult = await chrome.storage.local.get(STORAGE_KEYS.SELECTOR_PROFILES);
+            const storedState = storageResult[STORAGE_KEYS.SELECTOR_PROFILES] as SelectorProfileState | undefined;
+
+            return {
+                activeProfileId: storedState?.activeProfileId ?? null,
+                profiles: Array.isArray(storedState?.profiles) ? storedState.profiles : [],
+            };
+        } catch {
+            return { activeProfileId: null, profiles: [] };
+        }
+    }
+
+    async setActiveProfile(profileId: string | null): Promise<StorageOperationResult<SelectorProfileState>> {
+        const profileState = await this.retrieveState();
+        if (profileId !== null && !profileState.profiles.some(profile => profile.profileId === profileId)) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: 'Profile not found',
+            };
+        }
+
+        return this.persistState({ ...profileState, activeProfileId: profileId });
+    }
+
+    async saveProfile(profile: SelectorProfile): Promise<StorageOperationResult<SelectorProfileState>> {
+        // Stored profiles go through the same checks as imported files
+        const { validationErrors } = validateProfileFile(this.toProfileFile(profile));
+        if (validationErrors.length > 0) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: validationErrors.join('; '),
+            };
+        }
+
+        const profileState = await this.retrieveState();
+        const savedProfile = { ...profile, updatedAt: Date.now() };
+        const otherProfiles = profileState.profiles.filter(existing => existing.profileId !== profile.profileId);
+
+        return this.persistState({
+            ...profileState,
+            profiles: [...otherProfiles, savedProfile],
+        });
+    }
+
+    async deleteProfile(profileId: string): Promise<StorageOperationResult<SelectorProfileState>> {
+        const profileState = await this.retrieveState();
+
+        // Deleting the active profile falls back to the built-in defaults
+        return this.persistState({
+            activeProfileId: profileState.activeProfileId === profileId ? null : profileState.activeProfileId,
+            profiles: profileState.profiles.filter(profile => profile.profileId !== profileId),
+        });
+    }
+
+    async importProfile(fileContent: string): Promise<StorageOperationResult<SelectorProfileState>> {
+        let rawFile: unknown;
+        try {
+            rawFile = JSON.parse(fileContent);
+        } catch {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: 'Profile file is not valid JSON',
+            };
+        }
+
+        const { profileFile, validationErrors } = validateProfileFile(rawFile);
+        if (!profileFile) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: validationErrors.join('; '),
+            };
+        }
+
+        return this.saveProfile(this.createProfile(profileFile.profileName, profileFile.overrides));
+    }
+
+    exportProfile(profile: SelectorProfile): string {
+        return JSON.stringify(this.toProfileFile(profile), null, 2);
+    }
+
+    createProfile(profileName: string, overrides: Record<string, string[]> = {}): SelectorProfile {
+        return {
+            profileId: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            profileName: profileName.trim(),
+            overrides,
+            updatedAt: Date.now(),
+        };
+    }
+
+    private toProfileFile(profile: SelectorProfile): SelectorProfileFile {
+        return {
+            formatVersion: SELECTOR_PROFILE_FORMAT_VERSION,
+            profileName: profile.profileName,
+            overrides: profile.overrides,
+        };
+    }
+
+    private async persistState(profileState: SelectorProfileState): Promise<StorageOperationResult<SelectorProfileState>> {
+        try {
+            await chrome.storage.local.set({
+                [STORAGE_KEYS.SELECTOR_PROFILES]: profileState,
+            });
+
+            return {
+                success: true,
+                payload: profileState,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Failed to save selector profiles',
+            };
+        }
+    }
+}
+
+export const selectorProfiles = new SelectorProfileStore();
@@ -1,6 +1,7 @@
 /**
  * Storage service for managing CRM data persistence
  * Handles CRUD operations, deduplication, and race condition prevention
+ * Each ActiveCampaign account hostname is stored in its own partition
  */
 
 import {
@@ -8,24 +9,63 @@ import {
     ACContact,
     ACDeal,
     ACTask,
+    ACAccount,
+    ACActivity,
+    AccountPartitionSummary,
+    ExtractionCheckpoint,
+    RecordMergeSummary,
     StorageOperationResult
 } from './types';
-import { STORAGE_KEYS, DEFAULT_STORAGE_STATE, EXTRACTION_CONFIG } from './constants';
+import {
+    STORAGE_KEYS,
+    DEFAULT_STORAGE_STATE,
+    EXTRACTION_CONFIG,
+    NATIVE_ID_SOURCES,
+    NATIVE_RECORD_ID_PATTERN
+} from './constants';
+
+type EntityType = 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities';
+type EntityRecord = ACContact | ACDeal | ACTask | ACAccount | ACActivity;
+
+const UNKNOWN_ACCOUNT_HOST = 'unknown-account';
+
+const ENTITY_ID_PREFIXES: Record<EntityType, string> = {
+    contacts: 'contact',
+    deals: 'deal',
+    tasks: 'task',
+    accounts: 'account',
+    activities: 'activity',
+};
+
+export function buildPartitionKey(accountHost: string): string {
+    return `${STORAGE_KEYS.ACCOUNT_DATA_PREFIX}${accountHost.toLowerCase()}`;
+}
 
-type EntityType = 'contacts' | 'deals' | 'tasks';
-type EntityRecord = ACContact | ACDeal | ACTask;
+export function buildCheckpointKey(accountHost: string, urlPath: string): string {
+    return `${STORAGE_KEYS.EXTRACTION_CHECKPOINT_PREFIX}${accountHost.toLowerCase()}${urlPath}`;
+}
+
+function readHostname(sourceUrl: string): string | null {
+    try {
+        return new URL(sourceUrl).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
 
 class CRMStorageOrchestrator {
     private lockTimeout = 30000;
 
-    async retrieveAllData(): Promise<StorageOperationResult<ACStorageSchema>> {
+    async retrieveAllData(accountHost: string): Promise<StorageOperationResult<ACStorageSchema>> {
         try {
-            const storageResult = await chrome.storage.local.get(STORAGE_KEYS.CRM_DATA);
-            const storedData = storageResult[STORAGE_KEYS.CRM_DATA] as ACStorageSchema | undefined;
+            const partitionKey = buildPartitionKey(accountHost);
+            const storageResult = await chrome.storage.local.get(partitionKey);
+            const storedData = storageResult[partitionKey] as Partial<ACStorageSchema> | undefined;
 
+            // Data saved before an entity type existed lacks its array
             return {
                 success: true,
-                payload: storedData ?? { ...DEFAULT_STORAGE_STATE },
+                payload: { ...DEFAULT_STORAGE_STATE, ...storedData },
                 errorMessage: null,
             };
         } catch (error) {
@@ -37,10 +77,10 @@ class CRMStorageOrchestrator {
         }
     }
 
-    async persistData(updatedData: ACStorageSchema): Promise<StorageOperationResult<void>> {
+    async persistData(accountHost: string, updatedData: ACStorageSchema): Promise<StorageOperationResult<void>> {
         try {
             await chrome.storage.local.set({
-                [STORAGE_KEYS.CRM_DATA]: updatedData,
+                [buildPartitionKey(accountHost)]: updatedData,
             });
 
             return {
@@ -57,9 +97,40 @@ class CRMStorageOrchestrator {
         }
     }
 
-    async acquireSyncLock(): Promise<boolean> {
+    async listAccountPartitions(): Promise<StorageOperationResult<AccountPartitionSummary[]>> {
+        try {
+            const storageResult = await chrome.storage.local.get(null);
+            const partitions: AccountPartitionSummary[] = [];
+
+            for (const [storageKey, storedValue] of Object.entries(storageResult)) {
+                if (!storageKey.startsWith(STORAGE_KEYS.ACCOUNT_DATA_PREFIX)) continue;
+
+                const partitionData = { ...DEFAULT_STORAGE_STATE, ...(storedValue as Partial<ACStorageSchema>) };
+                partitions.push({
+                    accountHost: storageKey.slice(STORAGE_KEYS.ACCOUNT_DATA_PREFIX.length),
+                    recordCount: (Object.keys(ENTITY_ID_PREFIXES) as EntityType[])
+                        .reduce((total, entityType) => total + partitionData[entityType].length, 0),
+                    lastSync: partitionData.lastSync,
+                });
+            }
+
+            return {
+                success: true,
+                payload: partitions.sort((first, second) => first.accountHost.localeCompare(second.accountHost)),
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Failed to list accounts',
+            };
+        }
+    }
+
+    async acquireSyncLock(accountHost: string): Promise<boolean> {
         try {
-            const currentData = await this.retrieveAllData();
+            const currentData = await this.retrieveAllData(accountHost);
             if (!currentData.success || !currentData.payload) {
                 return false;
             }
@@ -81,7 +152,7 @@ class CRMStorageOrchestrator {
                 ...currentData.payload,
                 syncInProgress: true,
             };
-            await this.persistData(updatedData);
+            await this.persistData(accountHost, updatedData);
 
             return true;
         } catch {
@@ -89,17 +160,17 @@ class CRMStorageOrchestrator {
         }
     }
 
-    async releaseSyncLock(): Promise<void> {
+    async releaseSyncLock(accountHost: string): Promise<void> {
         try {
             await chrome.storage.local.remove(STORAGE_KEYS.SYNC_LOCK);
 
-            const currentData = await this.retrieveAllData();
+            const currentData = await this.retrieveAllData(accountHost);
             if (currentData.success && currentData.payload) {
                 const updatedData: ACStorageSchema = {
                     ...currentData.payload,
                     syncInProgress: false,
                 };
-                await this.persistData(updatedData);
+                await this.persistData(accountHost, updatedData);
             }
         } catch {
             console.warn('Failed to release sync lock');
@@ -107,24 +178,27 @@ class CRMStorageOrchestrator {
     }
 
     async insertRecordsWithDeduplication<T extends EntityRecord>(
+        accountHost: string,
         entityType: EntityType,
         newRecords: T[]
-    ): Promise<StorageOperationResult<number>> {
+    ): Promise<StorageOperationResult<RecordMergeSummary>> {
+        // Records always land in the partition they are stamped with, whatever the caller built
+        const stampedRecords = newRecords.map(record => ({ ...record, accountHost: accountHost.toLowerCase() }));
         const maxRetries = EXTRACTION_CONFIG.RETRY_ATTEMPTS;
         let attemptCount = 0;
 
         while (attemptCount < maxRetries) {
             try {
-                const lockAcquired = await this.acquireSyncLock();
+                const lockAcquired = await this.acquireSyncLock(accountHost);
                 if (!lockAcquired) {
                     attemptCount++;
                     await this.delayExecution(EXTRACTION_CONFIG.RETRY_DELAY_MS);
                     continue;
                 }
 
-                const currentData = await this.retrieveAllData();
+                const currentData = await this.retrieveAllData(accountHost);
                 if (!currentData.success || !currentData.payload) {
-                    await this.releaseSyncLock();
+                    await this.releaseSyncLock(accountHost);
                     return {
                         success: false,
                         payload: null,
@@ -133,7 +207,11 @@ class CRMStorageOrchestrator {
                 }
 
                 const existingRecords = currentData.payload[entityType] as T[];
-                const deduplicatedRecords = this.performDeduplication(existingRecords, newRecords);
+                const mergeSummary: RecordMergeSummary = { insertedIds: [], updatedIds: [], unchangedIds: [] };
+                const deduplicatedRecords = this.mergeLegacyDuplicates(
+                    entityType,
+                    this.performDeduplication(existingRecords, stampedRecords, mergeSummary)
+                );
 
                 const updatedData: ACStorageSchema = {
                     ...currentData.payload,
@@ -141,8 +219,8 @@ class CRMStorageOrchestrator {
                     lastSync: Date.now(),
                 };
 
-                const persistResult = await this.persistData(updatedData);
-                await this.releaseSyncLock();
+                const persistResult = await this.persistData(accountHost, updatedData);
+                await this.releaseSyncLock(accountHost);
 
                 if (!persistResult.success) {
                     return {
@@ -152,14 +230,13 @@ class CRMStorageOrchestrator {
                     };
                 }
 
-                const insertedCount = deduplicatedRecords.length - existingRecords.length;
                 return {
                     success: true,
-                    payload: Math.max(0, insertedCount),
+                    payload: mergeSummary,
                     errorMessage: null,
                 };
             } catch (error) {
-                await this.releaseSyncLock();
+                await this.releaseSyncLock(accountHost);
                 attemptCount++;
 
                 if (attemptCount >= maxRetries) {
@@ -183,7 +260,8 @@ class CRMStorageOrchestrator {
 
     private performDeduplication<T extends EntityRecord>(
         existingRecords: T[],
-        newRecords: T[]
+        newRecords: T[],
+        mergeSummary?: RecordMergeSummary
     ): T[] {
         const recordMap = new Map<string, T>();
 
@@ -196,20 +274,261 @@ class CRMStorageOrchestrator {
 
             if (!existingRecord) {
                 recordMap.set(newRecord.id, newRecord);
+                mergeSummary?.insertedIds.push(newRecord.id);
             } else if (newRecord.extractedAt > existingRecord.extractedAt) {
-                recordMap.set(newRecord.id, newRecord);
+                // Merge so fields only captured on detail pages survive a later list-view pass
+                const mergedRecord = this.mergeRecordFields(existingRecord, newRecord);
+                recordMap.set(newRecord.id, mergedRecord);
+
+                if (this.hasContentChanged(existingRecord, mergedRecord)) {
+                    mergeSummary?.updatedIds.push(newRecord.id);
+                } else {
+                    mergeSummary?.unchangedIds.push(newRecord.id);
+                }
+            } else {
+                mergeSummary?.unchangedIds.push(newRecord.id);
             }
         }
 
         return Array.from(recordMap.values());
     }
 
+    private mergeRecordFields<T extends EntityRecord>(existingRecord: T, newRecord: T): T {
+        const mergedRecord: Record<string, unknown> = { ...existingRecord };
+
+        for (const [fieldName, fieldValue] of Object.entries(newRecord)) {
+            // A list row that lacks a column reports it as empty, which is not the same as cleared
+            if (fieldValue === undefined || fieldValue === '') continue;
+            mergedRecord[fieldName] = fieldValue;
+        }
+
+        // Custom fields merge key by key; a list pass only sees the columns currently shown
+        const existingCustomFields = 'customFields' in existingRecord ? existingRecord.customFields : undefined;
+        const newCustomFields = 'customFields' in newRecord ? newRecord.customFields : undefined;
+        if (existingCustomFields || newCustomFields) {
+            mergedRecord.customFields = { ...existingCustomFields, ...newCustomFields };
+        }
+
+        return mergedRecord as T;
+    }
+
+    private hasContentChanged<T extends EntityRecord>(previousRecord: T, mergedRecord: T): boolean {
+        // A re-extraction always refreshes these, so they do not count as an edit
+        const comparableContent = (record: T): string =>
+            JSON.stringify({ ...record, extractedAt: 0, sourceUrl: '' });
+        return comparableContent(previousRecord) !== comparableContent(mergedRecord);
+    }
+
+    async reconcileLegacyRecordIds(): Promise<StorageOperationResult<number>> {
+        try {
+            const flagResult = await chrome.storage.local.get(STORAGE_KEYS.ID_RECONCILIATION);
+            if (flagResult[STORAGE_KEYS.ID_RECONCILIATION]) {
+                return { success: true, payload: 0, errorMessage: null };
+            }
+
+            const partitions = await this.listAccountPartitions();
+            if (!partitions.success || !partitions.payload) {
+                return {
+                    success: false,
+                    payload: null,
+                    errorMessage: 'Failed to list accounts for reconciliation',
+                };
+            }
+
+            let removedCount = 0;
+
+            for (const { accountHost } of partitions.payload) {
+                const currentData = await this.retrieveAllData(accountHost);
+                if (!currentData.success || !currentData.payload) {
+                    return {
+                        success: false,
+                        payload: null,
+                        errorMessage: 'Failed to retrieve current data for reconciliation',
+                    };
+                }
+
+                let updatedData: ACStorageSchema = { ...currentData.payload };
+
+                for (const entityType of Object.keys(ENTITY_ID_PREFIXES) as EntityType[]) {
+                    const existingRecords = currentData.payload[entityType] as EntityRecord[];
+                    const rekeyedRecords = existingRecords.map(record => this.rekeyFromSourceUrl(entityType, record));
+                    const reconciledRecords = this.mergeLegacyDuplicates(
+                        entityType,
+                        this.performDeduplication([], rekeyedRecords)
+                    );
+
+                    removedCount += existingRecords.length - reconciledRecords.length;
+                    updatedData = { ...updatedData, [entityType]: reconciledRecords };
+                }
+
+                const persistResult = await this.persistData(accountHost, updatedData);
+                if (!persistResult.success) {
+                    return {
+                        success: false,
+                        payload: null,
+                        errorMessage: persistResult.errorMessage,
+                    };
+                }
+            }
+
+            await chrome.storage.local.set({ [STORAGE_KEYS.ID_RECONCILIATION]: Date.now() });
+
+            return { success: true, payload: removedCount, errorMessage: null };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Reconciliation failed',
+            };
+        }
+    }
+
+    async partitionLegacyData(): Promise<StorageOperationResult<number>> {
+        try {
+            const storageResult = await chrome.storage.local.get(STORAGE_KEYS.CRM_DATA);
+            const legacyData = storageResult[STORAGE_KEYS.CRM_DATA] as Partial<ACStorageSchema> | undefined;
+            if (!legacyData) {
+                return { success: true, payload: 0, errorMessage: null };
+            }
+
+            const mergedData = { ...DEFAULT_STORAGE_STATE, ...legacyData };
+            const recordsByHost = new Map<string, Partial<Record<EntityType, EntityRecord[]>>>();
+            let movedCount = 0;
+
+            // The page a record was captured on names its account, which older records never stored
+            for (const entityType of Object.keys(ENTITY_ID_PREFIXES) as EntityType[]) {
+                for (const record of mergedData[entityType] as EntityRecord[]) {
+                    const accountHost = readHostname(record.sourceUrl) ?? UNKNOWN_ACCOUNT_HOST;
+                    const hostRecords = recordsByHost.get(accountHost) ?? {};
+                    hostRecords[entityType] = [...(hostRecords[entityType] ?? []), { ...record, accountHost }];
+                    recordsByHost.set(accountHost, hostRecords);
+                    movedCount++;
+                }
+            }
+
+            for (const [accountHost, hostRecords] of recordsByHost) {
+                const currentData = await this.retrieveAllData(accountHost);
+                if (!currentData.success || !currentData.payload) {
+                    return {
+                        success: false,
+                        payload: null,
+                        errorMessage: 'Failed to retrieve account data for partitioning',
+                    };
+                }
+
+                let updatedData: ACStorageSchema = {
+                    ...currentData.payload,
+                    lastSync: Math.max(currentData.payload.lastSync, mergedData.lastSync),
+                };
+                for (const [entityType, records] of Object.entries(hostRecords) as Array<[EntityType, EntityRecord[]]>) {
+                    updatedData = {
+                        ...updatedData,
+                        [entityType]: this.performDeduplication(currentData.payload[entityType] as EntityRecord[], records),
+                    };
+                }
+
+                const persistResult = await this.persistData(accountHost, updatedData);
+                if (!persistResult.success) {
+                    return {
+                        success: false,
+                        payload: null,
+                        errorMessage: persistResult.errorMessage,
+                    };
+                }
+            }
+
+            // Removed only once every partition is written, so a failure part way retries from the original
+            await chrome.storage.local.remove(STORAGE_KEYS.CRM_DATA);
+
+            return { success: true, payload: movedCount, errorMessage: null };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Partitioning failed',
+            };
+        }
+    }
+
+    private rekeyFromSourceUrl<T extends EntityRecord>(entityType: EntityType, record: T): T {
+        if (NATIVE_RECORD_ID_PATTERN.test(record.id)) {
+            return record;
+        }
+
+        // Records captured on a detail page carry their ActiveCampaign ID in the URL
+        const idPrefix = ENTITY_ID_PREFIXES[entityType];
+        const urlMatch = record.sourceUrl.match(NATIVE_ID_SOURCES[idPrefix].hrefPattern);
+
+        return urlMatch ? { ...record, id: `${idPrefix}-${urlMatch[1]}` } : record;
+    }
+
+    private deriveNaturalKey(entityType: EntityType, record: EntityRecord): string | null {
+        if (entityType === 'contacts') {
+            const email = (record as ACContact).email.toLowerCase().trim();
+            return email.length > 0 ? email : null;
+        }
+
+        if (entityType === 'deals') {
+            const deal = record as ACDeal;
+            return [deal.title, deal.pipeline, deal.primaryContact]
+                .map(part => part.toLowerCase().trim())
+                .join('|');
+        }
+
+        if (entityType === 'accounts') {
+            const accountName = (record as ACAccount).name.toLowerCase().trim();
+            return accountName.length > 0 ? accountName : null;
+        }
+
+        // Task titles and timeline entries repeat too often to merge on content alone
+        return null;
+    }
+
+    private mergeLegacyDuplicates<T extends EntityRecord>(entityType: EntityType, records: T[]): T[] {
+        const recordsByKey = new Map<string, T[]>();
+
+        for (const record of records) {
+            const naturalKey = this.deriveNaturalKey(entityType, record);
+            if (naturalKey !== null) {
+                recordsByKey.set(naturalKey, [...(recordsByKey.get(naturalKey) ?? []), record]);
+            }
+        }
+
+        const replacements = new Map<T, T>();
+        const absorbedRecords = new Set<T>();
+        const byAge = (first: T, second: T) => first.extractedAt - second.extractedAt;
+
+        for (const group of recordsByKey.values()) {
+            const legacyRecords = group.filter(record => !NATIVE_RECORD_ID_PATTERN.test(record.id));
+            const nativeRecords = group.filter(record => NATIVE_RECORD_ID_PATTERN.test(record.id));
+
+            if (group.length === 1 || legacyRecords.length === 0) {
+                continue;
+            }
+
+            // Hashed duplicates fold into the newest native record, or the newest hashed one
+            const survivor = [...(nativeRecords.length > 0 ? nativeRecords : legacyRecords)].sort(byAge).pop() as T;
+            const duplicates = legacyRecords.filter(record => record !== survivor).sort(byAge);
+
+            replacements.set(survivor, duplicates.reduceRight<T>(
+                (merged, duplicate) => ({ ...duplicate, ...merged }),
+                survivor
+            ));
+            duplicates.forEach(duplicate => absorbedRecords.add(duplicate));
+        }
+
+        return records
+            .filter(record => !absorbedRecords.has(record))
+            .map(record => replacements.get(record) ?? record);
+    }
+
     async removeRecord(
+        accountHost: string,
         entityType: EntityType,
         recordId: string
     ): Promise<StorageOperationResult<void>> {
         try {
-            const currentData = await this.retrieveAllData();
+            const currentData = await this.retrieveAllData(accountHost);
             if (!currentData.success || !currentData.payload) {
                 return {
                     success: false,
@@ -234,7 +553,7 @@ class CRMStorageOrchestrator {
                 [entityType]: filteredRecords,
             };
 
-            return await this.persistData(updatedData);
+            return await this.persistData(accountHost, updatedData);
         } catch (error) {
             return {
                 success: false,
@@ -244,10 +563,83 @@ class CRMStorageOrchestrator {
         }
     }
 
-    async clearAllRecords(): Promise<StorageOperationResult<void>> {
+    async removeRecords(
+        accountHost: string,
+        entityType: EntityType,
+        recordIds: string[]
+    ): Promise<StorageOperationResult<void>> {
+        try {
+            const currentData = await this.retrieveAllData(accountHost);
+            if (!currentData.success || !currentData.payload) {
+                return {
+                    success: false,
+                    payload: null,
+                    errorMessage: 'Failed to retrieve current data',
+                };
+            }
+
+            const removedIds = new Set(recordIds);
+            const updatedData: ACStorageSchema = {
+                ...currentData.payload,
+                [entityType]: (currentData.payload[entityType] as EntityRecord[])
+                    .filter(record => !removedIds.has(record.id)),
+            };
+
+            return await this.persistData(accountHost, updatedData);
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Delete operation failed',
+            };
+        }
+    }
+
+    async clearAllRecords(accountHost: string): Promise<StorageOperationResult<void>> {
+        try {
+            // The partition is removed outright so the account drops out of the switcher
+            await chrome.storage.local.remove(buildPartitionKey(accountHost));
+
+            return {
+                success: true,
+                payload: undefined,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Clear operation failed',
+            };
+        }
+    }
+
+    async clearAllAccounts(): Promise<StorageOperationResult<void>> {
+        try {
+            const storageResult = await chrome.storage.local.get(null);
+            const partitionKeys = Object.keys(storageResult)
+                .filter(storageKey => storageKey.startsWith(STORAGE_KEYS.ACCOUNT_DATA_PREFIX));
+
+            await chrome.storage.local.remove([...partitionKeys, STORAGE_KEYS.CRM_DATA, STORAGE_KEYS.RUN_HISTORY]);
+
+            return {
+                success: true,
+                payload: undefined,
+                errorMessage: null,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                payload: null,
+                errorMessage: error instanceof Error ? error.message : 'Clear operation failed',
+            };
+        }
+    }
+
+    async saveExtractionCheckpoint(checkpoint: ExtractionCheckpoint): Promise<StorageOperationResult<void>> {
         try {
             await chrome.storage.local.set({
-                [STORAGE_KEYS.CRM_DATA]: { ...DEFAULT_STORAGE_STATE },
+                [buildCheckpointKey(checkpoint.accountHost, checkpoint.urlPath)]: checkpoint,
             });
 
             return {
@@ -259,11 +651,36 @@ class CRMStorageOrchestrator {
             return {
                 success: false,
                 payload: null,
-                errorMessage: error instanceof Error ? error.message : 'Clear operation failed',
+                errorMessage: error instanceof Error ? error.message : 'Failed to save checkpoint',
             };
         }
     }
 
+    async retrieveExtractionCheckpoint(accountHost: string, urlPath: string): Promise<ExtractionCheckpoint | null> {
+        try {
+            const checkpointKey = buildCheckpointKey(accountHost, urlPath);
+            const storageResult = await chrome.storage.local.get(checkpointKey);
+            const checkpoint = storageResult[checkpointKey] as ExtractionCheckpoint | undefined;
+
+            // A checkpoint left over from an old session would resume against a list that has since changed
+            if (!checkpoint || Date.now() - checkpoint.updatedAt > EXTRACTION_CONFIG.CHECKPOINT_MAX_AGE_MS) {
+                return null;
+            }
+
+            return checkpoint;
+        } catch {
+            return null;
+        }
+    }
+
+    async clearExtractionCheckpoint(accountHost: string, urlPath: string): Promise<void> {
+        try {
+            await chrome.storage.local.remove(buildCheckpointKey(accountHost, urlPath));
+        } catch {
+            // Nothing to clean up if storage is unavailable
+        }
+    }
+
     private delayExecution(milliseconds: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, milliseconds));
     }
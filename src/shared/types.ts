@@ -3,6 +3,8 @@
  * Defines storage schema and extraction result types
  */
 
+export type CustomFieldMap = Record<string, string>;
+
 export interface ACContact {
     id: string;
     name: string;
@@ -10,10 +12,20 @@ export interface ACContact {
     phone: string;
     tags: string[];
     owner: string;
+    additionalEmails?: string[];
+    additionalPhones?: string[];
+    address?: string;
+    company?: string;
+    accountId?: string;
+    lists?: string[];
+    customFields?: CustomFieldMap;
     extractedAt: number;
     sourceUrl: string;
+    accountHost: string;
 }
 
+export type DealStatus = 'open' | 'won' | 'lost';
+
 export interface ACDeal {
     id: string;
     title: string;
@@ -23,12 +35,24 @@ export interface ACDeal {
     stage: string;
     primaryContact: string;
     owner: string;
+    account?: string;
+    accountId?: string;
+    status?: DealStatus;
+    closeDate?: string;
+    probability?: number;
+    createdDate?: string;
+    customFields?: CustomFieldMap;
     extractedAt: number;
     sourceUrl: string;
+    accountHost: string;
 }
 
 export type TaskType = 'call' | 'email' | 'meeting' | 'todo';
 
+export type TaskStatus = 'open' | 'completed';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
 export interface LinkedEntity {
     type: 'contact' | 'deal';
     id: string;
@@ -42,38 +66,219 @@ export interface ACTask {
     dueDate: string;
     assignee: string;
     linkedEntity: LinkedEntity | null;
+    status?: TaskStatus;
+    completedAt?: string;
+    dueTime?: string;
+    priority?: TaskPriority;
+    duration?: number;
+    description?: string;
+    customFields?: CustomFieldMap;
+    extractedAt: number;
+    sourceUrl: string;
+    accountHost: string;
+}
+
+export interface ACAccount {
+    id: string;
+    name: string;
+    url: string;
+    owner: string;
+    contactCount: number;
+    dealCount: number;
+    customFields?: CustomFieldMap;
+    extractedAt: number;
+    sourceUrl: string;
+    accountHost: string;
+}
+
+export type ActivityType = 'note' | 'email' | 'stage_change' | 'task_completed' | 'other';
+
+export interface ACActivity {
+    id: string;
+    type: ActivityType;
+    body: string;
+    author: string;
+    timestamp: string;
+    parent: LinkedEntity;
     extractedAt: number;
     sourceUrl: string;
+    accountHost: string;
 }
 
 export interface ACStorageSchema {
     contacts: ACContact[];
     deals: ACDeal[];
     tasks: ACTask[];
+    accounts: ACAccount[];
+    activities: ACActivity[];
     lastSync: number;
     syncInProgress: boolean;
 }
 
+export interface AccountPartitionSummary {
+    accountHost: string;
+    recordCount: number;
+    lastSync: number;
+}
+
+export interface ACUserPreferences {
+    numberLocale: string;
+    maxPages: number;
+    // Sub-views where new rows are saved as they appear, without a manual run
+    liveCaptureViews: string[];
+    liveCaptureThrottleMs: number;
+}
+
 export interface ExtractionOutcome {
     success: boolean;
-    entityType: 'contacts' | 'deals' | 'tasks';
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities';
     extractedCount: number;
     errorMessage: string | null;
     timestamp: number;
 }
 
+export interface BoardScrollReport {
+    columnsFound: number;
+    columnsFullyLoaded: number;
+}
+
+export interface ExtractionRunResult {
+    entityType: string;
+    count: number;
+    warningMessage?: string;
+    boardScrollReport?: BoardScrollReport;
+}
+
+export interface RecordMergeSummary {
+    insertedIds: string[];
+    updatedIds: string[];
+    unchangedIds: string[];
+}
+
+export interface RunTouchedRecord {
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts' | 'activities';
+    recordId: string;
+    change: 'inserted' | 'updated';
+}
+
+export interface FieldDiagnostics {
+    // Dotted path into the selector chains, e.g. "contacts.email"
+    chainPath: string;
+    lookupCount: number;
+    filledCount: number;
+    // Lookups answered by a selector after the first in the chain
+    fallbackCount: number;
+    selectorHits: Record<string, number>;
+}
+
+export interface ExtractionRunEntry {
+    runId: string;
+    accountHost: string;
+    subView: SubViewType;
+    sourceUrl: string;
+    startedAt: number;
+    finishedAt: number;
+    outcome: 'success' | 'failed' | 'cancelled';
+    // Null for views that are captured without paginating
+    paginationStrategy: PaginationStrategyName | null;
+    pagesVisited: number | null;
+    recordsFound: number;
+    insertedCount: number;
+    updatedCount: number;
+    unchangedCount: number;
+    touchedRecords: RunTouchedRecord[];
+    warnings: string[];
+    errorMessage: string | null;
+    fieldDiagnostics: FieldDiagnostics[];
+}
+
 export interface ExtractionProgress {
     currentPhase: 'idle' | 'detecting' | 'extracting' | 'saving' | 'complete' | 'failed';
     progressPercent: number;
     statusMessage: string;
+    currentPage: number | null;
+    totalPages: number | null;
+    recordCount: number;
+    estimatedSecondsRemaining: number | null;
 }
 
-export type ViewType = 'contacts' | 'deals' | 'tasks' | 'unknown';
+export type PaginationStrategyName =
+    | 'next-button'
+    | 'load-more-button'
+    | 'infinite-scroll'
+    | 'url-page-parameter'
+    | 'single-page';
+
+export interface PaginationReport {
+    strategy: PaginationStrategyName;
+    pagesVisited: number;
+    stopReason: 'complete' | 'page-repeated' | 'page-limit' | 'cancelled';
+}
+
+export interface ExtractionCheckpoint {
+    entityType: 'contacts' | 'deals' | 'tasks' | 'accounts';
+    accountHost: string;
+    urlPath: string;
+    strategy: PaginationStrategyName;
+    completedPages: number;
+    // Records are saved to the account partition page by page; the checkpoint is only the cursor
+    pageFingerprint: string;
+    recordCount: number;
+    startedAt: number;
+    updatedAt: number;
+}
+
+export type ViewType = 'contacts' | 'deals' | 'tasks' | 'accounts' | 'unknown';
+
+export type SubViewType =
+    | 'pipeline_board'
+    | 'deals_list'
+    | 'deal_detail'
+    | 'contact_list'
+    | 'contact_detail'
+    | 'segment_list'
+    | 'tasks_list'
+    | 'tasks_calendar'
+    | 'accounts_list'
+    | 'unknown';
 
 export interface ViewDetectionResult {
     detectedView: ViewType;
+    subView: SubViewType;
     confidence: 'high' | 'medium' | 'low';
     urlPath: string;
+    isDetailView: boolean;
+    recordId: string | null;
+    pipelineName: string | null;
+    activeFilter: string | null;
+    totalRecordCount: number | null;
+}
+
+export interface RowChangeSummary {
+    addedCount: number;
+    removedCount: number;
+    changedCount: number;
+}
+
+export interface SelectorProfile {
+    profileId: string;
+    profileName: string;
+    // Chain path to replacement selectors; chains not listed keep the built-in defaults
+    overrides: Record<string, string[]>;
+    updatedAt: number;
+}
+
+export interface SelectorProfileState {
+    // Null means the built-in defaults are in use
+    activeProfileId: string | null;
+    profiles: SelectorProfile[];
+}
+
+export interface SelectorTestResult {
+    selector: string;
+    isValid: boolean;
+    matchCount: number;
+    sampleText: string;
 }
 
 export interface StorageOperationResult<T> {
@@ -83,7 +288,7 @@ export interface StorageOperationResult<T> {
 }
 
 export interface DeleteConfirmation {
-    entityType: 'contact' | 'deal' | 'task';
+    entityType: 'contact' | 'deal' | 'task' | 'account' | 'activity';
     entityId: string;
     entityName: string;
 }
@@ -93,12 +298,14 @@ export interface FilterCriteria {
     pipeline?: string;
     stage?: string;
     taskType?: TaskType;
+    taskStatus?: TaskStatus;
+    parentRecordId?: string;
     sortField?: string;
     sortDirection?: 'asc' | 'desc';
 }
 
 export interface ExportConfiguration {
     format: 'csv' | 'json';
-    entityTypes: ('contacts' | 'deals' | 'tasks')[];
+    entityTypes: ('contacts' | 'deals' | 'tasks' | 'accounts' | 'activities')[];
     filename: string;
 }